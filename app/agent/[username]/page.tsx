@@ -3,7 +3,15 @@ import { notFound } from "next/navigation";
 import { pool } from "@/lib/db";
 import { AppHeader } from "@/components/AppHeader";
 import { VerifiableScore } from "@/components/VerifiableScore";
+import { AgentReviews } from "@/components/AgentReviews";
+import { TierBadge } from "@/components/TierBadge";
 import { parseAgentUri } from "@/lib/agentMetadata";
+import { getScoreHistory, type ScoreHistoryPoint } from "@/services/scoreHistory";
+import { getPenalizedMandates, type PenalizedMandate } from "@/services/mandateEscrow";
+import { getTierHistory, type TierEvent } from "@/services/tierEvents";
+import { MANDATE_STATUS_LABELS } from "@/services/mandateContracts";
+import { getAgentAlerts, type AgentAlert } from "@/services/agentAlerts";
+import { MANDATE_OUTCOME_KEYS, type TaskPenaltyExplanation } from "@moltscore/scoring";
 
 export const dynamic = "force-dynamic";
 
@@ -88,6 +96,43 @@ async function getAgentById(id: number) {
   return res.rows[0] || null;
 }
 
+async function getTrend(id: number): Promise<ScoreHistoryPoint[]> {
+  try {
+    return await getScoreHistory(id, "90d", "day");
+  } catch (e) {
+    console.warn("[AgentProfile] score history unavailable:", String(e).slice(0, 200));
+    return [];
+  }
+}
+
+async function getLastTierChange(id: number): Promise<TierEvent | null> {
+  try {
+    return (await getTierHistory(id, 1)).events[0] ?? null;
+  } catch (e) {
+    console.warn("[AgentProfile] tier history unavailable:", String(e).slice(0, 200));
+    return null;
+  }
+}
+
+/** Anomalies from the last week, for the warning banner. */
+async function getRecentAlerts(id: number): Promise<AgentAlert[]> {
+  try {
+    return (await getAgentAlerts(id, { days: 7, limit: 5 })).alerts;
+  } catch (e) {
+    console.warn("[AgentProfile] alerts unavailable:", String(e).slice(0, 200));
+    return [];
+  }
+}
+
+async function getPenalized(id: number): Promise<PenalizedMandate[]> {
+  try {
+    return await getPenalizedMandates(id);
+  } catch (e) {
+    console.warn("[AgentProfile] penalized mandates unavailable:", String(e).slice(0, 200));
+    return [];
+  }
+}
+
 
 /* ------------------------------------------------------------------ */
 /*  Sub-components                                                     */
@@ -201,6 +246,135 @@ function StatRow({
   );
 }
 
+function ScoreTrend({ points }: { points: ScoreHistoryPoint[] }) {
+  const width = 280;
+  const height = 56;
+  const scores = points.map((p) => p.score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const span = Math.max(1, max - min);
+  const coords = points.map((p, i) => {
+    const x = points.length > 1 ? (i / (points.length - 1)) * width : width / 2;
+    const y = height - 4 - ((p.score - min) / span) * (height - 8);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const change = last.score - first.score;
+
+  return (
+    <div>
+      <div className="mb-2 flex items-baseline justify-between">
+        <span className="font-mono text-lg font-bold text-foreground">
+          {last.score}
+          <span className="ml-1 text-xs font-normal text-muted">{last.tier}</span>
+        </span>
+        <span
+          className={`font-mono text-xs font-semibold ${change > 0 ? "text-green-500" : change < 0 ? "text-red-500" : "text-muted"}`}
+        >
+          {change > 0 ? "+" : ""}
+          {change} pts
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        className="h-14 w-full text-orange"
+        role="img"
+        aria-label={`Score trend from ${first.score} to ${last.score}`}
+      >
+        {points.length > 1 ? (
+          <polyline
+            points={coords.join(" ")}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinejoin="round"
+            strokeLinecap="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        ) : (
+          <circle cx={width / 2} cy={height / 2} r="3" fill="currentColor" />
+        )}
+      </svg>
+      <div className="mt-1 flex justify-between font-mono text-[10px] text-muted">
+        <span>{new Date(first.t).toLocaleDateString()}</span>
+        <span>{points.length} {points.length === 1 ? "day" : "days"}</span>
+        <span>{new Date(last.t).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+}
+
+function TaskPenalties({
+  penalties,
+  mandates,
+}: {
+  penalties: TaskPenaltyExplanation | null;
+  mandates: PenalizedMandate[];
+}) {
+  const outcomes = penalties
+    ? MANDATE_OUTCOME_KEYS.map((k) => ({ key: k, ...penalties.outcomes[k] })).filter((o) => o.count > 0)
+    : [];
+  return (
+    <div className="space-y-4">
+      {penalties ? (
+        <div className="space-y-1.5 text-sm">
+          {outcomes.map((o) => (
+            <div key={o.key} className="flex items-center justify-between text-muted">
+              <span>
+                <span className="font-mono font-bold text-foreground">{o.count}</span> {o.key} ×{" "}
+                {o.pointsEach} pts
+              </span>
+              <span className="font-mono text-red-500">−{o.points}</span>
+            </div>
+          ))}
+          <div className="flex items-center justify-between border-t border-border pt-2 text-muted">
+            <span>
+              Deducted from task completion
+              {penalties.deducted < penalties.total && " (capped at the points earned)"}
+            </span>
+            <span className="font-mono font-bold text-red-500">−{penalties.deducted}</span>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted">Not yet reflected in the score.</p>
+      )}
+      {mandates.length > 0 && (
+        <div className="divide-y divide-border border-t border-border">
+          {mandates.map((m) => (
+            <div key={m.mandateId} className="flex items-center justify-between gap-3 py-2 text-xs">
+              <div className="min-w-0">
+                <span className="rounded border border-border px-1.5 py-0.5 font-mono text-[10px] text-muted">
+                  {MANDATE_STATUS_LABELS[m.status] ?? m.status}
+                </span>{" "}
+                <span className="text-muted">
+                  for {shortAddr(m.creator)}
+                  {m.createdTs > 0 && ` · ${timeAgo(new Date(m.createdTs * 1000))}`}
+                </span>
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <span className="font-mono text-foreground">{formatEth(weiToEth(m.amountWei))} ETH</span>
+                {m.lastEventTx && (
+                  <a
+                    href={`https://basescan.org/tx/${m.lastEventTx}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-muted transition-colors hover:text-orange"
+                  >
+                    tx
+                  </a>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function OnchainLink({
   label,
   href,
@@ -280,6 +454,15 @@ export default async function AgentProfilePage({
 
   if (!row) notFound();
 
+  const [trend, penalizedMandates, lastTierChange, recentAlerts] = await Promise.all([
+    getTrend(agentId),
+    getPenalized(agentId),
+    getLastTierChange(agentId),
+    getRecentAlerts(agentId),
+  ]);
+  // Written by the scoring cycle for versions with outcome penalties (v1.4.0+)
+  const taskPenalties: TaskPenaltyExplanation | null = row.score_components?.taskPenalties ?? null;
+
   // Gigs and burn data are cached in the DB by the sync script
   const gigs: Gig[] = row.gigs_json || [];
   const burnData = {
@@ -368,6 +551,29 @@ export default async function AgentProfilePage({
           Back to agents
         </Link>
 
+        {/* ==================== Anomaly Alerts ==================== */}
+        {recentAlerts.length > 0 && (
+          <div
+            role="alert"
+            className="mb-6 rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm"
+          >
+            <p className="font-mono text-xs font-bold uppercase tracking-wider text-amber-400">
+              Unusual activity in the last 7 days
+            </p>
+            <ul className="mt-2 space-y-1">
+              {recentAlerts.map((a) => (
+                <li key={a.id} className="text-foreground">
+                  <span className="font-semibold text-amber-400">{a.label}:</span> {a.detail}
+                  <span className="text-muted"> · {timeAgo(a.detectedAt)}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="mt-2 text-xs text-muted">
+              Flagged automatically when reputation or market data moves sharply between syncs.
+            </p>
+          </div>
+        )}
+
         {/* ==================== Hero Card ==================== */}
         <ClippedCard
           size="lg"
@@ -404,6 +610,16 @@ export default async function AgentProfilePage({
                 <h1 className="text-2xl font-bold text-foreground sm:text-3xl">
                   {name}
                 </h1>
+                <TierBadge tier={row.tier} size="md" />
+                {lastTierChange && lastTierChange.toTier === row.tier && (
+                  <span
+                    className="text-[11px] text-muted"
+                    title={`Score ${lastTierChange.scoreBefore} → ${lastTierChange.scoreAfter} (cause: ${lastTierChange.cause})`}
+                  >
+                    {lastTierChange.direction === "promotion" ? "↑" : "↓"} from {lastTierChange.fromTier},{" "}
+                    {timeAgo(lastTierChange.createdAt)}
+                  </span>
+                )}
                 {symbol && (
                   <span className="font-mono text-sm text-muted">
                     ${symbol}
@@ -542,6 +758,20 @@ export default async function AgentProfilePage({
                 </div>
               )}
             </ClippedCard>
+
+            {/* Task Penalties (disputed / refunded / rejected / cancelled worker mandates) */}
+            {(penalizedMandates.length > 0 || (taskPenalties?.total ?? 0) > 0) && (
+              <ClippedCard className="animate-fade-in-up animate-on-load animate-delay-300 p-6">
+                <SectionTitle title="Mandates That Cost Points" />
+                <TaskPenalties penalties={taskPenalties} mandates={penalizedMandates} />
+              </ClippedCard>
+            )}
+
+            {/* Reviews (Reputation Registry, services/mandateReputation.ts) */}
+            <ClippedCard className="animate-fade-in-up animate-on-load animate-delay-300 p-6">
+              <SectionTitle title="Reviews" />
+              <AgentReviews agentId={agentId} />
+            </ClippedCard>
           </div>
 
           {/* ========== Right Column (Sidebar) ========== */}
@@ -549,6 +779,14 @@ export default async function AgentProfilePage({
             {/* EigenCloud Verifiable Score */}
             <VerifiableScore agentId={agentId} />
 
+            {/* Score Trend (score_snapshots, last 90 days) */}
+            {trend.length > 0 && (
+              <ClippedCard className="animate-fade-in-up animate-on-load animate-delay-100 p-5">
+                <SectionTitle title="Score Trend · 90d" />
+                <ScoreTrend points={trend} />
+              </ClippedCard>
+            )}
+
             {/* Stats Card */}
             <ClippedCard className="animate-fade-in-up animate-on-load animate-delay-100 p-5">
               <SectionTitle title="Stats" />
@@ -3,6 +3,7 @@
 import Link from "next/link";
 import { useState, useEffect, useCallback } from "react";
 import { AppHeader } from "@/components/AppHeader";
+import { TierBadge } from "@/components/TierBadge";
 
 interface Agent {
   agentId: number;
@@ -14,6 +15,8 @@ interface Agent {
   owner: string;
   score: number | null;
   tier: string | null;
+  scoreInterval: { low: number; high: number } | null;
+  provisional: boolean | null;
   symbol: string | null;
   marketCap: number;
   volume24h: number;
@@ -43,6 +46,7 @@ interface ApiResp {
 const SKILL_FILTERS = ["all", "code", "research", "audit", "automation", "security"];
 const SORT_OPTIONS = [
   { value: "reputation", label: "Reputation" },
+  { value: "score", label: "Score" },
   { value: "mcap", label: "MCap" },
   { value: "named", label: "Featured" },
   { value: "recent", label: "Recent" },
@@ -56,6 +60,19 @@ function formatUsd(n: number): string {
   return "";
 }
 
+/** Marks a score backed by too little evidence; the title shows its interval. */
+function ProvisionalBadge({ agent }: { agent: Agent }) {
+  if (!agent.provisional) return null;
+  return (
+    <span
+      title={agent.scoreInterval ? `Score could be ${agent.scoreInterval.low}–${agent.scoreInterval.high}` : undefined}
+      className="rounded border border-amber-500/30 px-1 py-px font-mono text-[9px] uppercase text-amber-400"
+    >
+      provisional
+    </span>
+  );
+}
+
 function VerifiedBadge({ className = "h-4 w-4" }: { className?: string }) {
   return (
     <svg className={className} viewBox="0 0 22 22" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -116,6 +133,7 @@ function AgentCard({ agent }: { agent: Agent }) {
               {agent.name}
             </h3>
             {agent.xVerified && <VerifiedBadge className="h-4 w-4 shrink-0" />}
+            <TierBadge tier={agent.tier} />
           </div>
           <div className="flex items-center gap-1.5">
             {hasToken && (
@@ -173,6 +191,12 @@ function AgentCard({ agent }: { agent: Agent }) {
               {priceUp ? "+" : ""}{agent.priceChange24h.toFixed(1)}%
             </span>
           )}
+          {agent.score != null && (
+            <span className="text-muted">
+              Score <span className="font-mono font-bold text-foreground">{agent.score}</span>{" "}
+              <ProvisionalBadge agent={agent} />
+            </span>
+          )}
           {agent.repValue > 0 && (
             <span className="text-muted">
               Rep <span className="font-mono font-bold text-foreground">{agent.repValue}</span>
@@ -210,9 +234,11 @@ function AgentRow({ agent }: { agent: Agent }) {
         <div className="flex items-center gap-1.5">
           <span className="truncate text-sm font-semibold text-foreground group-hover:text-orange">{agent.name}</span>
           {agent.xVerified && <VerifiedBadge className="h-3.5 w-3.5 shrink-0" />}
+          <TierBadge tier={agent.tier} />
           {agent.symbol && (
             <span className="hidden font-mono text-xs text-muted xs:inline">${agent.symbol}</span>
           )}
+          <ProvisionalBadge agent={agent} />
         </div>
       </div>
       <div className="hidden items-center gap-1.5 sm:flex">
@@ -250,6 +276,7 @@ export default function AgentsPage() {
   const [activeSkill, setActiveSkill] = useState("all");
   const [sort, setSort] = useState("reputation");
   const [view, setView] = useState<"grid" | "list">("grid");
+  const [hideProvisional, setHideProvisional] = useState(false);
 
   useEffect(() => {
     const t = setTimeout(() => setDebouncedSearch(search), 300);
@@ -266,6 +293,7 @@ export default function AgentsPage() {
         sort,
         ...(debouncedSearch ? { search: debouncedSearch } : {}),
         ...(activeSkill !== "all" ? { skill: activeSkill } : {}),
+        ...(hideProvisional ? { provisional: "exclude" } : {}),
       });
       const res = await fetch(`/api/agents?${params}`);
       const data: ApiResp = await res.json();
@@ -278,10 +306,10 @@ export default function AgentsPage() {
     } finally {
       setLoading(false);
     }
-  }, [page, sort, debouncedSearch, activeSkill]);
+  }, [page, sort, debouncedSearch, activeSkill, hideProvisional]);
 
   useEffect(() => { fetchAgents(); }, [fetchAgents]);
-  useEffect(() => { setPage(1); }, [debouncedSearch, activeSkill, sort]);
+  useEffect(() => { setPage(1); }, [debouncedSearch, activeSkill, sort, hideProvisional]);
 
   return (
     <div className="min-h-screen bg-background text-foreground">
@@ -335,6 +363,15 @@ export default function AgentsPage() {
 
           {/* Sort + view — right-aligned */}
           <div className="flex items-center justify-end gap-2">
+            <label className="mr-auto flex cursor-pointer items-center gap-1.5 font-mono text-xs text-muted">
+              <input
+                type="checkbox"
+                checked={hideProvisional}
+                onChange={(e) => setHideProvisional(e.target.checked)}
+                className="accent-orange"
+              />
+              Hide provisional scores
+            </label>
             <select
               value={sort}
               onChange={(e) => setSort(e.target.value)}
@@ -0,0 +1,54 @@
+/**
+ * GET /api/agents/:id/alerts - Anomalies flagged by the MoltLaunch sync (review bursts,
+ * reputation drops, holder/volume spikes, market cap swings), newest first, each with the
+ * previous and current value. Supports ?days= (1–365, default all), ?page=, ?limit=.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAgentAlerts } from "@/services/agentAlerts";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const agentId = parseInt(id, 10);
+
+  if (isNaN(agentId)) {
+    return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+  }
+
+  const url = req.nextUrl;
+  const daysParam = url.searchParams.get("days");
+  const days = daysParam === null ? null : parseInt(daysParam, 10);
+  if (days !== null && (isNaN(days) || days < 1 || days > 365)) {
+    return NextResponse.json(
+      { success: false, error: "days must be an integer between 1 and 365" },
+      { status: 400 }
+    );
+  }
+  const page = Math.max(1, parseInt(url.searchParams.get("page") ?? "1", 10) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get("limit") ?? "20", 10) || 20));
+
+  try {
+    const { alerts, total } = await getAgentAlerts(agentId, { days, limit, offset: (page - 1) * limit });
+
+    return NextResponse.json({
+      success: true,
+      agentId,
+      alerts,
+      total,
+      page,
+      limit,
+      pages: Math.ceil(total / limit),
+    });
+  } catch (e) {
+    console.error("[API /agents/:id/alerts]", e);
+    return NextResponse.json(
+      { success: false, error: "Failed to load alerts" },
+      { status: 500 }
+    );
+  }
+}
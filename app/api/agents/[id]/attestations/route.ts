@@ -0,0 +1,44 @@
+/**
+ * GET /api/agents/:id/attestations - Signed TEE attestations for one agent, newest first.
+ * Supports ?page= and ?limit= (default 20, max 100); ?limit=1 gives the latest one.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { listAttestations } from "@/services/attestationStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const agentId = parseInt(id, 10);
+
+  if (isNaN(agentId)) {
+    return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+  }
+
+  const url = req.nextUrl;
+  const page = Math.max(1, parseInt(url.searchParams.get("page") ?? "1", 10) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get("limit") ?? "20", 10) || 20));
+
+  try {
+    const { attestations, total } = await listAttestations(agentId, limit, (page - 1) * limit);
+    return NextResponse.json({
+      success: true,
+      agentId,
+      attestations,
+      total,
+      page,
+      limit,
+      pages: Math.ceil(total / limit),
+    });
+  } catch (e) {
+    console.error("[API /agents/:id/attestations]", e);
+    return NextResponse.json(
+      { success: false, error: "Failed to load attestations" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * GET /api/agents/:id/mandates - Paginated escrow job history for one agent.
+ * Mandates come from the escrow indexer (services/mandateEscrow.ts); each one carries its
+ * recorded status transitions with block and tx. Supports ?role=worker|creator|all,
+ * ?status=Completed,Disputed (labels or numeric codes), ?page=, ?limit=.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { pool } from "@/lib/db";
+import { MANDATE_STATUS_LABELS } from "@/services/mandateContracts";
+import { loadMandateAddresses } from "@/services/mandateEscrow";
+
+export const dynamic = "force-dynamic";
+
+type Role = "worker" | "creator" | "all";
+
+interface MandateRow {
+  mandate_id: string;
+  creator_address: string;
+  worker_address: string;
+  resolver_address: string | null;
+  amount_wei: string;
+  created_ts: string;
+  submitted_ts: string;
+  dispute_deposit_wei: string;
+  status: number;
+  last_event_block: string | null;
+  last_event_tx: string | null;
+}
+
+interface TransitionRow {
+  mandate_id: string;
+  from_status: number | null;
+  to_status: number;
+  block_number: string;
+  tx_hash: string;
+}
+
+function parseRole(raw: string | null): Role | null {
+  const r = (raw ?? "all").toLowerCase();
+  return r === "worker" || r === "creator" || r === "all" ? r : null;
+}
+
+const STATUS_BY_LABEL = new Map(
+  Object.entries(MANDATE_STATUS_LABELS).map(([code, label]) => [label.toLowerCase(), Number(code)])
+);
+
+/** Parse "Completed,4,disputed" into status codes; null when any entry is unknown. */
+function parseStatuses(raw: string | null): number[] | null {
+  if (!raw) return [];
+  const codes: number[] = [];
+  for (const part of raw.split(",").map((p) => p.trim().toLowerCase()).filter(Boolean)) {
+    const code = /^\d+$/.test(part) ? parseInt(part, 10) : STATUS_BY_LABEL.get(part);
+    if (code == null || !(code in MANDATE_STATUS_LABELS)) return null;
+    codes.push(code);
+  }
+  return codes;
+}
+
+function unixToIso(ts: string | null): string | null {
+  const n = Number(ts ?? 0);
+  return n > 0 ? new Date(n * 1000).toISOString() : null;
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const agentId = parseInt(id, 10);
+
+  if (isNaN(agentId)) {
+    return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+  }
+
+  const url = req.nextUrl;
+  const role = parseRole(url.searchParams.get("role"));
+  if (!role) {
+    return NextResponse.json({ error: "role must be worker, creator or all" }, { status: 400 });
+  }
+  const statuses = parseStatuses(url.searchParams.get("status"));
+  if (!statuses) {
+    return NextResponse.json({ error: "Unknown status filter" }, { status: 400 });
+  }
+  const page = Math.max(1, parseInt(url.searchParams.get("page") ?? "1", 10) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get("limit") ?? "20", 10) || 20));
+  const offset = (page - 1) * limit;
+
+  try {
+    const agentRes = await pool.query(`SELECT 1 FROM mandate_agents WHERE agent_id = $1 LIMIT 1`, [agentId]);
+    if (agentRes.rowCount === 0) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    // The agent's wallet, or its owner when it has no wallet - the same address its escrow
+    // counts are scored on, so siblings under one owner don't list each other's jobs.
+    const address = (await loadMandateAddresses([agentId])).get(agentId);
+    const addrs = address ? [address] : [];
+
+    const roleClause =
+      role === "worker"
+        ? "worker_address = ANY($1::text[])"
+        : role === "creator"
+          ? "creator_address = ANY($1::text[])"
+          : "(worker_address = ANY($1::text[]) OR creator_address = ANY($1::text[]))";
+    const where = `${roleClause} AND (cardinality($2::int[]) = 0 OR status = ANY($2::int[]))`;
+
+    const [countRes, rowsRes] = await Promise.all([
+      pool.query(`SELECT COUNT(*)::int AS c FROM mandates WHERE ${where}`, [addrs, statuses]),
+      pool.query<MandateRow>(
+        `SELECT mandate_id, creator_address, worker_address, resolver_address,
+                amount_wei::text AS amount_wei, created_ts, submitted_ts,
+                dispute_deposit_wei::text AS dispute_deposit_wei, status,
+                last_event_block, last_event_tx
+         FROM mandates
+         WHERE ${where}
+         ORDER BY created_ts DESC, mandate_id
+         LIMIT $3 OFFSET $4`,
+        [addrs, statuses, limit, offset]
+      ),
+    ]);
+    const total = (countRes.rows[0] as { c: number })?.c ?? 0;
+
+    const ids = rowsRes.rows.map((r) => r.mandate_id);
+    const transitionsRes = ids.length > 0
+      ? await pool.query<TransitionRow>(
+          `SELECT mandate_id, from_status, to_status, block_number, tx_hash
+           FROM mandate_status_events
+           WHERE mandate_id = ANY($1::text[])
+           ORDER BY block_number, log_index`,
+          [ids]
+        )
+      : { rows: [] as TransitionRow[] };
+
+    const transitionsById = new Map<string, TransitionRow[]>();
+    for (const t of transitionsRes.rows) {
+      const list = transitionsById.get(t.mandate_id) ?? [];
+      list.push(t);
+      transitionsById.set(t.mandate_id, list);
+    }
+
+    const mandates = rowsRes.rows.map((r) => ({
+      mandateId: r.mandate_id,
+      role: r.worker_address === address ? "worker" : "creator",
+      creator: r.creator_address,
+      worker: r.worker_address,
+      resolver: r.resolver_address,
+      amountWei: r.amount_wei,
+      createdAt: unixToIso(r.created_ts),
+      submittedAt: unixToIso(r.submitted_ts),
+      disputeDepositWei: r.dispute_deposit_wei,
+      status: MANDATE_STATUS_LABELS[r.status] ?? "Unknown",
+      statusCode: r.status,
+      lastEventBlock: r.last_event_block != null ? Number(r.last_event_block) : null,
+      lastEventTx: r.last_event_tx,
+      transitions: (transitionsById.get(r.mandate_id) ?? []).map((t) => ({
+        from: t.from_status != null ? MANDATE_STATUS_LABELS[t.from_status] ?? "Unknown" : null,
+        to: MANDATE_STATUS_LABELS[t.to_status] ?? "Unknown",
+        blockNumber: Number(t.block_number),
+        txHash: t.tx_hash,
+      })),
+    }));
+
+    return NextResponse.json({
+      success: true,
+      agentId,
+      role,
+      mandates,
+      total,
+      page,
+      limit,
+      pages: Math.ceil(total / limit),
+    });
+  } catch (e) {
+    console.error("[API /agents/:id/mandates]", e);
+    return NextResponse.json(
+      { success: false, error: "Failed to load mandates" },
+      { status: 500 }
+    );
+  }
+}
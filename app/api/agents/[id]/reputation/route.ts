@@ -0,0 +1,43 @@
+/**
+ * GET /api/agents/:id/reputation - per-tag reputation sub-scores (services/tagReputation.ts),
+ * computed from the agent's Reputation Registry reviews by tag1 / tag2.
+ * With ?tag= returns that tag only (`reputation`, null when the agent has no reviews with
+ * it); without, every tag best score first (`tags`).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAgentTagReputation, normalizeTag } from "@/services/tagReputation";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const agentId = parseInt(id, 10);
+
+  if (isNaN(agentId)) {
+    return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+  }
+
+  const rawTag = req.nextUrl.searchParams.get("tag");
+  const tag = normalizeTag(rawTag);
+  if (rawTag !== null && !tag) {
+    return NextResponse.json({ success: false, error: "Invalid tag" }, { status: 400 });
+  }
+
+  try {
+    const tags = await getAgentTagReputation(agentId, tag ?? undefined);
+    if (tag) {
+      return NextResponse.json({ success: true, agentId, tag, reputation: tags[0] ?? null });
+    }
+    return NextResponse.json({ success: true, agentId, tags });
+  } catch (e) {
+    console.error("[API /agents/:id/reputation]", e);
+    return NextResponse.json(
+      { success: false, error: "Failed to load reputation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * GET /api/agents/:id/reviews - Reputation Registry reviews for one agent, newest first,
+ * with appended responses and the reviewer's agent name when the reviewer is a registered
+ * agent. Also returns per-filter counts and a per-tag histogram.
+ * Supports ?filter=all|positive|negative|revoked, ?tag=, ?page= and ?limit= (default 20, max 100).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getAgentReviewCounts,
+  getAgentReviewTags,
+  listAgentReviews,
+  REVIEW_FILTERS,
+  type ReviewFilter,
+} from "@/services/mandateReputation";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const agentId = parseInt(id, 10);
+
+  if (isNaN(agentId)) {
+    return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+  }
+
+  const url = req.nextUrl;
+  const filter = (url.searchParams.get("filter") ?? "all") as ReviewFilter;
+  if (!REVIEW_FILTERS.includes(filter)) {
+    return NextResponse.json(
+      { success: false, error: `filter must be one of ${REVIEW_FILTERS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const tag = url.searchParams.get("tag")?.trim() || null;
+  const page = Math.max(1, parseInt(url.searchParams.get("page") ?? "1", 10) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get("limit") ?? "20", 10) || 20));
+
+  try {
+    const [{ reviews, total }, counts, tags] = await Promise.all([
+      listAgentReviews(agentId, { filter, tag, limit, offset: (page - 1) * limit }),
+      getAgentReviewCounts(agentId),
+      getAgentReviewTags(agentId),
+    ]);
+    return NextResponse.json({
+      success: true,
+      agentId,
+      filter,
+      tag,
+      reviews,
+      counts,
+      tags,
+      total,
+      page,
+      limit,
+      pages: Math.ceil(total / limit),
+    });
+  } catch (e) {
+    console.error("[API /agents/:id/reviews]", e);
+    return NextResponse.json(
+      { success: false, error: "Failed to load reviews" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 /**
  * GET /api/agents/:id - Single agent detail.
  * Live data from MoltLaunch API (reputation, market cap, volume, etc.) merged with
- * DB-only fields (score, tier, mandates, feedback). Falls back to DB if API fails.
+ * DB-only fields (score, tier, confidence interval, mandates, feedback). Falls back to DB if
+ * API fails.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -29,7 +30,8 @@ export async function GET(
         `SELECT agent_id, owner_address, wallet_address, agent_uri,
                 name, description, image_url, skills,
                 feedback_count, avg_feedback_value, unique_reviewers,
-                score, tier, mandates_as_worker, mandates_as_creator, mandates_completed,
+                score, tier, score_components, score_low, score_high, score_provisional,
+                last_scored_at, mandates_as_worker, mandates_as_creator, mandates_completed,
                 symbol, market_cap_usd, volume_24h_usd, price_change_24h,
                 liquidity_usd, holders, flaunch_token, flaunch_url,
                 twitter, x_verified, has_profile, endpoint, price_wei,
@@ -77,6 +79,10 @@ export async function GET(
         agentUri: a?.agentURI ?? row?.agent_uri,
         score: row?.score ?? null,
         tier: row?.tier ?? null,
+        scoreComponents: row?.score_components ?? null,
+        scoreInterval: row?.score_low != null ? { low: row.score_low, high: row.score_high } : null,
+        provisional: row?.score_provisional ?? null,
+        lastScoredAt: row?.last_scored_at ?? null,
         symbol: a?.symbol ?? row?.symbol,
         marketCap: a?.marketCapUSD ?? parseFloat(row?.market_cap_usd) ?? 0,
         volume24h: a?.volume24hUSD ?? parseFloat(row?.volume_24h_usd) ?? 0,
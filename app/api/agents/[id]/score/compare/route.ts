@@ -0,0 +1,92 @@
+/**
+ * GET /api/agents/:id/score/compare - Score one agent under several algorithm versions.
+ * Uses the stored inputs the scoring cycle uses, so results match what each version would
+ * persist. ?versions=1.0.0,1.1.0 (default: every registered version); deltas are relative
+ * to the first version listed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  assignTier,
+  componentMaxima,
+  computeScore,
+  getScoringVersion,
+  scoreInputToJson,
+  SCORING_VERSIONS,
+  UnknownScoringVersionError,
+} from "@moltscore/scoring";
+import { getAgentScoreInput } from "@/services/mandateScoringEngine";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const agentId = parseInt(id, 10);
+
+  if (isNaN(agentId)) {
+    return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+  }
+
+  const raw = req.nextUrl.searchParams.get("versions");
+  const versions = raw
+    ? [...new Set(raw.split(",").map((v) => v.trim()).filter(Boolean))]
+    : Object.keys(SCORING_VERSIONS);
+
+  try {
+    versions.forEach((v) => getScoringVersion(v));
+  } catch (e) {
+    if (e instanceof UnknownScoringVersionError) {
+      return NextResponse.json(
+        { error: e.message, versions: Object.keys(SCORING_VERSIONS) },
+        { status: 400 }
+      );
+    }
+    throw e;
+  }
+
+  try {
+    const resolved = await getAgentScoreInput(agentId);
+    if (!resolved) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    const outputs = versions.map((version) => ({ version, out: computeScore(resolved.input, version) }));
+    const base = outputs[0]?.out;
+
+    const results = outputs.map(({ version, out }) => ({
+      version,
+      description: getScoringVersion(version).description,
+      score: out.score,
+      tier: assignTier(out.score, version),
+      components: out.components,
+      componentMaxima: componentMaxima(version),
+      delta: base
+        ? {
+            score: out.score - base.score,
+            peerReputation: out.components.peerReputation - base.components.peerReputation,
+            taskCompletion: out.components.taskCompletion - base.components.taskCompletion,
+            economicActivity: out.components.economicActivity - base.components.economicActivity,
+            identityCompleteness: out.components.identityCompleteness - base.components.identityCompleteness,
+          }
+        : null,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      agentId,
+      baseVersion: versions[0] ?? null,
+      reputationSource: resolved.reputationSource,
+      input: scoreInputToJson(resolved.input),
+      results,
+    });
+  } catch (e) {
+    console.error("[API /agents/:id/score/compare]", e);
+    return NextResponse.json(
+      { success: false, error: "Failed to compare scores" },
+      { status: 500 }
+    );
+  }
+}
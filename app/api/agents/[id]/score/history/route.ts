@@ -0,0 +1,72 @@
+/**
+ * GET /api/agents/:id/score/history - Score time series from score_snapshots.
+ * ?range=24h|7d|30d|90d|1y|all (default 30d), ?bucket=raw|hour|day|week (default day;
+ * bucketed series keep the last snapshot in each period).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getScoreHistory,
+  HISTORY_BUCKETS,
+  HISTORY_RANGES,
+  isHistoryBucket,
+  isHistoryRange,
+} from "@/services/scoreHistory";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const agentId = parseInt(id, 10);
+
+  if (isNaN(agentId)) {
+    return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+  }
+
+  const range = req.nextUrl.searchParams.get("range") ?? "30d";
+  const bucket = req.nextUrl.searchParams.get("bucket") ?? "day";
+  if (!isHistoryRange(range)) {
+    return NextResponse.json(
+      { error: `range must be one of ${Object.keys(HISTORY_RANGES).join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (!isHistoryBucket(bucket)) {
+    return NextResponse.json(
+      { error: `bucket must be one of ${HISTORY_BUCKETS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const points = await getScoreHistory(agentId, range, bucket);
+    const first = points[0];
+    const last = points[points.length - 1];
+
+    return NextResponse.json({
+      success: true,
+      agentId,
+      range,
+      bucket,
+      points,
+      summary: first && last
+        ? {
+            first: first.score,
+            last: last.score,
+            change: last.score - first.score,
+            min: Math.min(...points.map((p) => p.score)),
+            max: Math.max(...points.map((p) => p.score)),
+          }
+        : null,
+    });
+  } catch (e) {
+    console.error("[API /agents/:id/score/history]", e);
+    return NextResponse.json(
+      { success: false, error: "Failed to load score history" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * GET /api/agents/:id/tier-history - Promotions and demotions from tier_events, newest
+ * first, each with its score delta, cause and per-component deltas. Also returns the
+ * agent's current tier and the default version's tier ladder. Supports ?page=, ?limit=.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { TIERS } from "@moltscore/scoring";
+import { pool } from "@/lib/db";
+import { getTierHistory } from "@/services/tierEvents";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const agentId = parseInt(id, 10);
+
+  if (isNaN(agentId)) {
+    return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+  }
+
+  const url = req.nextUrl;
+  const page = Math.max(1, parseInt(url.searchParams.get("page") ?? "1", 10) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get("limit") ?? "20", 10) || 20));
+
+  try {
+    const agentRes = await pool.query<{ score: number | null; tier: string | null }>(
+      `SELECT score, tier FROM mandate_agents WHERE agent_id = $1 LIMIT 1`,
+      [agentId]
+    );
+    const agent = agentRes.rows[0];
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    const { events, total } = await getTierHistory(agentId, limit, (page - 1) * limit);
+
+    return NextResponse.json({
+      success: true,
+      agentId,
+      current: { tier: agent.tier, score: agent.score },
+      ladder: TIERS,
+      events,
+      total,
+      page,
+      limit,
+      pages: Math.ceil(total / limit),
+    });
+  } catch (e) {
+    console.error("[API /agents/:id/tier-history]", e);
+    return NextResponse.json(
+      { success: false, error: "Failed to load tier history" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,19 +2,27 @@
  * GET /api/agents - paginated agent directory.
  * Live data from MoltLaunch API (reputation, market cap, volume, etc.) merged with
  * DB-only fields (score, tier, mandates). Supports ?search=, ?skill=, ?sort=, ?page=, ?limit=.
+ * With ?skill=, each agent carries its reputation for the matching review tag
+ * (services/tagReputation.ts) and ?sort=reputation ranks by it instead of global reputation.
+ * ?provisional=exclude keeps only agents with a scored, non-provisional score (provisional
+ * means too little evidence, see @moltscore/scoring confidence.ts).
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { pool } from "@/lib/db";
 import { parseAgentUri } from "@/lib/agentMetadata";
 import { fetchAllAgents, type MoltAgent } from "@/lib/moltlaunchApi";
+import { getTagReputationByAgent, normalizeTag, type TagReputation } from "@/services/tagReputation";
 
 export const dynamic = "force-dynamic";
 
 type MergedAgent = MoltAgent & {
   score: number | null;
   tier: string | null;
+  scoreInterval: { low: number; high: number } | null;
+  provisional: boolean | null;
   _agent_uri: string | null;
+  _tag_rep: TagReputation | null;
 };
 
 function applySearch(agents: MergedAgent[], search: string): MergedAgent[] {
@@ -38,7 +46,7 @@ function applySkill(agents: MergedAgent[], skill: string): MergedAgent[] {
   );
 }
 
-function sortAgents(agents: MergedAgent[], sort: string): MergedAgent[] {
+function sortAgents(agents: MergedAgent[], sort: string, bySkill: boolean): MergedAgent[] {
   const arr = [...agents];
   switch (sort) {
     case "mcap":
@@ -56,6 +64,15 @@ function sortAgents(agents: MergedAgent[], sort: string): MergedAgent[] {
       );
       break;
     case "reputation":
+      if (bySkill) {
+        arr.sort(
+          (a, b) =>
+            (b._tag_rep?.score ?? 0) - (a._tag_rep?.score ?? 0) ||
+            (b._tag_rep?.feedbackCount ?? 0) - (a._tag_rep?.feedbackCount ?? 0) ||
+            parseInt(a.agentIdBigInt, 10) - parseInt(b.agentIdBigInt, 10)
+        );
+        break;
+      }
       arr.sort(
         (a, b) =>
           (b.reputation?.summaryValue ?? 0) - (a.reputation?.summaryValue ?? 0) ||
@@ -101,7 +118,9 @@ export async function GET(req: NextRequest) {
   const url = req.nextUrl;
   const search = url.searchParams.get("search")?.trim() ?? "";
   const skill = url.searchParams.get("skill")?.trim() ?? "";
+  const skillTag = skill && skill !== "all" ? normalizeTag(skill) : null;
   const sort = url.searchParams.get("sort") ?? "named";
+  const excludeProvisional = url.searchParams.get("provisional") === "exclude";
   const page = Math.max(1, parseInt(url.searchParams.get("page") ?? "1", 10));
   const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get("limit") ?? "50", 10)));
   const offset = (page - 1) * limit;
@@ -111,24 +130,25 @@ export async function GET(req: NextRequest) {
     const agentIds = apiAgents
       .map((a) => parseInt(a.agentIdBigInt, 10))
       .filter((id) => !isNaN(id));
+    const tagReps = skillTag ? await getTagReputationByAgent(skillTag) : null;
     const dbRows = await pool.query<{
       agent_id: number;
       score: number | null;
       tier: string | null;
+      score_low: number | null;
+      score_high: number | null;
+      score_provisional: boolean | null;
       agent_uri: string | null;
     }>(
       agentIds.length > 0
-        ? `SELECT agent_id, score, tier, agent_uri FROM mandate_agents WHERE agent_id = ANY($1::int[])`
-        : `SELECT agent_id, score, tier, agent_uri FROM mandate_agents WHERE 1=0`,
+        ? `SELECT agent_id, score, tier, score_low, score_high, score_provisional, agent_uri
+           FROM mandate_agents WHERE agent_id = ANY($1::int[])`
+        : `SELECT agent_id, score, tier, score_low, score_high, score_provisional, agent_uri
+           FROM mandate_agents WHERE 1=0`,
       agentIds.length > 0 ? [agentIds] : []
     );
 
-    const dbByAgentId = new Map(
-      dbRows.rows.map((r) => [
-        r.agent_id,
-        { score: r.score, tier: r.tier, agent_uri: r.agent_uri },
-      ])
-    );
+    const dbByAgentId = new Map(dbRows.rows.map((r) => [r.agent_id, r]));
 
     let merged: MergedAgent[] = apiAgents.map((a) => {
       const agentId = parseInt(a.agentIdBigInt, 10);
@@ -137,14 +157,18 @@ export async function GET(req: NextRequest) {
         ...a,
         score: db?.score ?? null,
         tier: db?.tier ?? null,
+        scoreInterval: db?.score_low != null && db.score_high != null ? { low: db.score_low, high: db.score_high } : null,
+        provisional: db?.score_provisional ?? null,
         _agent_uri: db?.agent_uri ?? a.agentURI ?? null,
+        _tag_rep: tagReps?.get(agentId) ?? null,
       };
     });
 
     merged = applySearch(merged, search);
     merged = applySkill(merged, skill);
+    if (excludeProvisional) merged = merged.filter((a) => a.provisional === false);
     const total = merged.length;
-    merged = sortAgents(merged, sort);
+    merged = sortAgents(merged, sort, Boolean(tagReps));
     const pageAgents = merged.slice(offset, offset + limit);
 
     const agents = pageAgents.map((a) => {
@@ -169,6 +193,8 @@ export async function GET(req: NextRequest) {
         owner: a.owner,
         score: a.score,
         tier: a.tier,
+        scoreInterval: a.scoreInterval,
+        provisional: a.provisional,
         symbol: a.symbol ?? undefined,
         marketCap: a.marketCapUSD ?? 0,
         volume24h: a.volume24hUSD ?? 0,
@@ -182,6 +208,13 @@ export async function GET(req: NextRequest) {
         hasProfile: a.hasProfile ?? false,
         repCount: a.reputation?.count ?? 0,
         repValue: a.reputation?.summaryValue ?? 0,
+        ...(tagReps
+          ? {
+              skillReputation: a._tag_rep
+                ? { tag: a._tag_rep.tag, score: a._tag_rep.score, feedbackCount: a._tag_rep.feedbackCount }
+                : null,
+            }
+          : {}),
         gigCount: a.gigCount ?? 0,
         completedTasks: a.completedTasks ?? 0,
         activeTasks: a.activeTasks ?? 0,
@@ -0,0 +1,35 @@
+/**
+ * GET /api/attestations/:id - One stored TEE attestation: signed message, signature,
+ * signer, score output and the exact input the TEE scored.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAttestation } from "@/services/attestationStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const attestationId = parseInt(id, 10);
+
+  if (isNaN(attestationId) || attestationId < 1) {
+    return NextResponse.json({ error: "Invalid attestation ID" }, { status: 400 });
+  }
+
+  try {
+    const attestation = await getAttestation(attestationId);
+    if (!attestation) {
+      return NextResponse.json({ error: "Attestation not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, ...attestation });
+  } catch (e) {
+    console.error("[API /attestations/:id]", e);
+    return NextResponse.json(
+      { success: false, error: "Failed to load attestation" },
+      { status: 500 }
+    );
+  }
+}
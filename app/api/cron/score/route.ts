@@ -1,20 +1,62 @@
 /**
- * POST /api/cron/score — Sync agent data from MoltLaunch API into DB.
- * Fetches all pages from api.moltlaunch.com/api/agents and upserts into mandate_agents.
+ * POST /api/cron/score — Sync agent data from MoltLaunch API into DB and score every agent.
+ * Fetches all pages from api.moltlaunch.com/api/agents and upserts into mandate_agents
+ * (flagging sudden reputation or market swings in agent_alerts), advances the escrow and
+ * Reputation Registry indexers by a bounded number of block chunks (reviews feed
+ * feedback_count / avg_feedback_value / unique_reviewers), refreshes a bounded number of
+ * reviewer profiles (transaction count, funding source), then runs the scoring engine (same
+ * computeScore as the TEE) to fill score, tier and score_components, recomputes per-tag
+ * reputation, and stores a Merkle-rooted leaderboard snapshot of the scores just persisted,
+ * whose root the TEE recomputes from the same inputs and signs.
+ * Indexing and reviewer profiles stop at INDEXING_BUDGET_MS, tag reputation and the
+ * snapshot are skipped past OPTIONAL_STAGE_BUDGET_MS, and the snapshot's TEE signing
+ * request is aborted at SIGNING_BUDGET_MS (the snapshot is then stored unsigned), so a run
+ * that reaches scoring on time finishes within maxDuration; skipped stages are listed in
+ * `skipped` and caught up by later runs (or the sync:escrow / sync:reputation scripts).
+ * Reviewer signals are optional too: if they fail to load, agents are scored without
+ * reviewer weighting and "reviewerSignals" is listed in `skipped`.
  * Call on a schedule (e.g. Vercel Cron every 15 min) or manually with CRON_SECRET.
  *
  * Protected by CRON_SECRET.
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import type { ReviewerSignal } from "@moltscore/scoring";
 import { pool } from "@/lib/db";
 import { runMoltlaunchSync } from "@/services/moltlaunchSync";
+import { indexEscrowMandates } from "@/services/mandateEscrow";
+import { indexReputationFeedback } from "@/services/mandateReputation";
+import { runScoringCycle } from "@/services/mandateScoringEngine";
+import { loadReviewerSignals, refreshReviewerProfiles } from "@/services/reviewerProfiles";
+import { refreshTagReputation } from "@/services/tagReputation";
+import { createLeaderboardSnapshot } from "@/services/leaderboardSnapshots";
 
 export const dynamic = "force-dynamic";
 export const maxDuration = 60;
 
 const LOG = "[CronScore]";
 
+/** Escrow chunks per cron run; the rest is picked up by later runs (or npm run sync:escrow). */
+const ESCROW_CHUNKS_PER_RUN = 25;
+
+/** Reputation Registry chunks per cron run; the rest is picked up by npm run sync:reputation. */
+const REPUTATION_CHUNKS_PER_RUN = 25;
+
+/** Reviewer profiles refreshed per cron run (one RPC call, plus one explorer call until funded). */
+const REVIEWER_PROFILES_PER_RUN = 50;
+
+/** Ms from the start of the run after which indexing and profile refreshes stop. */
+const INDEXING_BUDGET_MS = 25_000;
+
+/** Ms from the start of the run after which tag reputation and the snapshot are skipped. */
+const OPTIONAL_STAGE_BUDGET_MS = 45_000;
+
+/**
+ * Ms from the start of the run at which the snapshot's TEE signing request is aborted;
+ * the rest of maxDuration stores the snapshot entries and returns the summary.
+ */
+const SIGNING_BUDGET_MS = 55_000;
+
 function verifyAuth(req: NextRequest): boolean {
   const secret = process.env.CRON_SECRET;
   if (!secret) {
@@ -38,6 +80,76 @@ export async function POST(req: NextRequest) {
 
     const result = await runMoltlaunchSync(pool);
 
+    const indexingDeadline = startMs + INDEXING_BUDGET_MS;
+    const optionalDeadline = startMs + OPTIONAL_STAGE_BUDGET_MS;
+    const signingDeadline = startMs + SIGNING_BUDGET_MS;
+    const skipped: string[] = [];
+    const skip = (stage: string, deadline: number): boolean => {
+      if (Date.now() < deadline) return false;
+      console.warn(LOG, `skipping ${stage}: ${Date.now() - startMs}ms elapsed`);
+      skipped.push(stage);
+      return true;
+    };
+
+    // Escrow indexing is best-effort: an RPC outage should not fail the MoltLaunch sync.
+    let escrow: Awaited<ReturnType<typeof indexEscrowMandates>> | null = null;
+    if (!skip("escrow", indexingDeadline)) {
+      try {
+        escrow = await indexEscrowMandates({ maxChunks: ESCROW_CHUNKS_PER_RUN, deadline: indexingDeadline });
+      } catch (e) {
+        console.warn(LOG, "escrow indexing failed", { error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
+    let reputation: Awaited<ReturnType<typeof indexReputationFeedback>> | null = null;
+    if (!skip("reputation", indexingDeadline)) {
+      try {
+        reputation = await indexReputationFeedback({ maxChunks: REPUTATION_CHUNKS_PER_RUN, deadline: indexingDeadline });
+      } catch (e) {
+        console.warn(LOG, "reputation indexing failed", { error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
+    let reviewerProfiles: Awaited<ReturnType<typeof refreshReviewerProfiles>> | null = null;
+    if (!skip("reviewerProfiles", indexingDeadline)) {
+      try {
+        reviewerProfiles = await refreshReviewerProfiles({ limit: REVIEWER_PROFILES_PER_RUN, deadline: indexingDeadline });
+      } catch (e) {
+        console.warn(LOG, "reviewer profiles failed", { error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
+    // Without reviewer signals agents are scored unweighted rather than not at all.
+    let reviewers = new Map<number, ReviewerSignal[]>();
+    try {
+      reviewers = await loadReviewerSignals();
+    } catch (e) {
+      console.warn(LOG, "reviewer signals failed; scoring without reviewer weighting", {
+        error: e instanceof Error ? e.message : String(e),
+      });
+      skipped.push("reviewerSignals");
+    }
+    const { result: scoring, scored } = await runScoringCycle(reviewers);
+
+    let tagReputation: Awaited<ReturnType<typeof refreshTagReputation>> | null = null;
+    if (!skip("tagReputation", optionalDeadline)) {
+      try {
+        tagReputation = await refreshTagReputation();
+      } catch (e) {
+        console.warn(LOG, "tag reputation failed", { error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
+    // Snapshot failures are logged, not fatal: scores are already persisted.
+    let snapshot: Awaited<ReturnType<typeof createLeaderboardSnapshot>> = null;
+    if (!skip("snapshot", optionalDeadline)) {
+      try {
+        snapshot = await createLeaderboardSnapshot(scored, signingDeadline);
+      } catch (e) {
+        console.warn(LOG, "leaderboard snapshot failed", { error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
     const elapsedMs = Date.now() - startMs;
     const summary = {
       success: true,
@@ -47,6 +159,14 @@ export async function POST(req: NextRequest) {
       synced: result.synced,
       errors: result.errors,
       dbCount: result.dbCount,
+      alerts: result.alerts,
+      escrow,
+      reputation,
+      reviewerProfiles,
+      scoring,
+      tagReputation,
+      snapshot,
+      skipped,
     };
 
     console.info(LOG, "sync complete", summary);
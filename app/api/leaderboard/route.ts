@@ -1,6 +1,10 @@
 /**
  * GET /api/leaderboard — Top agents ranked by reputation.
- * Queries the mandate_agents table directly.
+ * Queries the mandate_agents table directly. Each agent carries its confidence interval and
+ * whether the score is provisional (too little evidence, see @moltscore/scoring
+ * confidence.ts); ?provisional=exclude ranks only agents with non-provisional scores.
+ * Ranks here are not the ranks in TEE-signed leaderboard snapshots, which rank every scored
+ * agent by score (services/leaderboardSnapshots.ts).
  */
 
 import { pool } from "@/lib/db";
@@ -12,6 +16,13 @@ export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
     const limit = Math.min(100, Math.max(1, parseInt(searchParams.get("limit") ?? "50", 10) || 50));
+    const provisional = searchParams.get("provisional") ?? "include";
+    if (provisional !== "include" && provisional !== "exclude") {
+      return NextResponse.json(
+        { success: false, error: "provisional must be include or exclude" },
+        { status: 400 }
+      );
+    }
 
     const result = await pool.query(
       `SELECT
@@ -25,6 +36,11 @@ export async function GET(request: Request) {
         market_cap,
         holders,
         x_verified,
+        score,
+        tier,
+        score_low,
+        score_high,
+        score_provisional,
         rep_value,
         rep_count,
         completed_tasks,
@@ -32,9 +48,10 @@ export async function GET(request: Request) {
         discovered_at
       FROM mandate_agents
       WHERE name IS NOT NULL
+        AND ($2::boolean IS FALSE OR score_provisional IS FALSE)
       ORDER BY rep_value DESC NULLS LAST, market_cap DESC NULLS LAST
       LIMIT $1`,
-      [limit]
+      [limit, provisional === "exclude"]
     );
 
     const agents = result.rows.map((row, index) => ({
@@ -49,6 +66,10 @@ export async function GET(request: Request) {
       marketCap: parseFloat(row.market_cap ?? "0"),
       holders: row.holders ?? 0,
       xVerified: row.x_verified ?? false,
+      score: row.score ?? null,
+      tier: row.tier ?? null,
+      scoreInterval: row.score_low != null ? { low: row.score_low, high: row.score_high } : null,
+      provisional: row.score_provisional ?? null,
       repValue: row.rep_value ?? 0,
       repCount: row.rep_count ?? 0,
       completedTasks: row.completed_tasks ?? 0,
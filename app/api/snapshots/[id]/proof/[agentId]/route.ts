@@ -0,0 +1,58 @@
+/**
+ * GET /api/snapshots/:id/proof/:agentId - Merkle inclusion proof for one agent in a
+ * leaderboard snapshot. Returns the leaf fields (agentId, rank, score, tier, version), the
+ * leaf hash, the sibling path and the TEE-signed root, enough to verify the agent's rank
+ * and score on-chain with MerkleProof.verify or off-chain with verifyMerkleProof.
+ * The rank is among every scored agent, so it can differ from the /api/leaderboard rank.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { LEADERBOARD_LEAF_TYPES } from "@moltscore/scoring";
+import { getSnapshot, getSnapshotProof } from "@/services/leaderboardSnapshots";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; agentId: string }> }
+) {
+  const { id, agentId: rawAgentId } = await params;
+  const snapshotId = parseInt(id, 10);
+  const agentId = parseInt(rawAgentId, 10);
+
+  if (isNaN(snapshotId) || snapshotId < 1) {
+    return NextResponse.json({ error: "Invalid snapshot ID" }, { status: 400 });
+  }
+  if (isNaN(agentId)) {
+    return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+  }
+
+  try {
+    const snapshot = await getSnapshot(snapshotId);
+    if (!snapshot) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+    }
+    const inclusion = await getSnapshotProof(snapshot, agentId);
+    if (!inclusion) {
+      return NextResponse.json({ error: "Agent not in snapshot" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      snapshot,
+      entry: inclusion.entry,
+      leafEncoding: {
+        types: LEADERBOARD_LEAF_TYPES,
+        hash: "keccak256(keccak256(abi.encode(agentId, rank, score, tier, version)))",
+      },
+      leaf: inclusion.leaf,
+      proof: inclusion.proof,
+    });
+  } catch (e) {
+    console.error("[API /snapshots/:id/proof/:agentId]", e);
+    return NextResponse.json(
+      { success: false, error: "Failed to build proof" },
+      { status: 500 }
+    );
+  }
+}
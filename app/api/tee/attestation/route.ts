@@ -0,0 +1,43 @@
+/**
+ * GET /api/tee/attestation — Platform attestation report from the EigenCompute scoring
+ * service: quote, measurement (image digest, code hash) and the signer the quote is bound
+ * to. Passes ?nonce= through so callers can demand a fresh quote.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+const EIGENCOMPUTE_URL = process.env.EIGENCOMPUTE_URL || "";
+
+export async function GET(req: NextRequest) {
+  if (!EIGENCOMPUTE_URL) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "EigenCompute service not configured",
+        hint: "Set EIGENCOMPUTE_URL in environment variables",
+      },
+      { status: 503 }
+    );
+  }
+
+  const nonce = req.nextUrl.searchParams.get("nonce");
+  const url = new URL(`${EIGENCOMPUTE_URL}/attestation`);
+  if (nonce) url.searchParams.set("nonce", nonce);
+
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(15000) });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      return NextResponse.json(
+        { success: false, error: body.error || `EigenCompute returned ${res.status}` },
+        { status: res.status }
+      );
+    }
+    return NextResponse.json(body);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    return NextResponse.json({ success: false, error: message }, { status: 502 });
+  }
+}
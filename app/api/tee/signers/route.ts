@@ -0,0 +1,49 @@
+/**
+ * GET /api/tee/signers — TEE signer registry: every published signer address with its
+ * validity window and the scoring versions it served, plus the signer the configured
+ * EigenCompute service is running right now (from its /health) and whether it is registered.
+ */
+
+import { NextResponse } from "next/server";
+import { signerRecordAt } from "@moltscore/scoring";
+import { TRUSTED_TEE_SIGNERS } from "@/config/teeSigners";
+import { fetchTeeHealth } from "@/services/teeSigner";
+
+export const dynamic = "force-dynamic";
+
+const EIGENCOMPUTE_URL = process.env.EIGENCOMPUTE_URL || "";
+
+export async function GET() {
+  let current: {
+    address: string;
+    mode: string | null;
+    production: boolean;
+    registered: boolean;
+  } | null = null;
+  let currentError: string | null = null;
+
+  if (EIGENCOMPUTE_URL) {
+    try {
+      const health = await fetchTeeHealth();
+      const address = health.signer?.address ?? health.teeWallet;
+      if (address) {
+        const record = signerRecordAt(address, Math.floor(Date.now() / 1000), TRUSTED_TEE_SIGNERS);
+        current = {
+          address,
+          mode: health.signer?.mode ?? null,
+          production: Boolean(health.signer?.production) && record?.environment === "production",
+          registered: record != null,
+        };
+      }
+    } catch (e) {
+      currentError = e instanceof Error ? e.message : "Unknown error";
+    }
+  }
+
+  return NextResponse.json({
+    success: true,
+    signers: TRUSTED_TEE_SIGNERS,
+    current,
+    ...(currentError ? { currentError } : {}),
+  });
+}
@@ -3,17 +3,27 @@
  * Builds score input with on-chain data; when on-chain reputation is empty,
  * uses MoltLaunch API (off-chain) so the attestation is "on-chain + attested off-chain".
  * POSTs the input to the TEE so the score reflects both sources.
+ * ?blockTag= (block number, latest, safe or finalized) pins the on-chain reads; the TEE
+ * checks the block hash and signs it into the attestation.
+ * Each signed result is checked (checkAttestationBundle) and appended to the attestation log
+ * (services/attestationStore.ts) only when valid: tampered bundles and unknown signers are
+ * returned with their `verification` but never stored.
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { parseBlockTag, scoreInputToJson } from "@moltscore/scoring";
+import { TRUSTED_TEE_SIGNERS } from "@/config/teeSigners";
+import { checkAttestationBundle } from "@/lib/attestationVerifier";
 import { buildScoreInputForTee } from "@/services/verifiableScoreInput";
+import { recordAttestation, type SignedAttestation } from "@/services/attestationStore";
+import { getRunningTeeSigner } from "@/services/teeSigner";
 
 export const dynamic = "force-dynamic";
 
 const EIGENCOMPUTE_URL = process.env.EIGENCOMPUTE_URL || "";
 
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ agentId: string }> }
 ) {
   const { agentId } = await params;
@@ -23,6 +33,12 @@ export async function GET(
     return NextResponse.json({ success: false, error: "Invalid agentId" }, { status: 400 });
   }
 
+  const rawBlockTag = req.nextUrl.searchParams.get("blockTag");
+  const blockTag = rawBlockTag == null ? "latest" : parseBlockTag(rawBlockTag);
+  if (blockTag == null) {
+    return NextResponse.json({ success: false, error: "Invalid blockTag" }, { status: 400 });
+  }
+
   if (!EIGENCOMPUTE_URL) {
     return NextResponse.json(
       {
@@ -35,12 +51,12 @@ export async function GET(
   }
 
   try {
-    const { input, reputationSource } = await buildScoreInputForTee(id);
+    const { input, reputationSource, skippedAdjustments, block } = await buildScoreInputForTee(id, blockTag);
 
     const res = await fetch(`${EIGENCOMPUTE_URL}/score`, {
       method: "POST",
       headers: { "Content-Type": "application/json", Accept: "application/json" },
-      body: JSON.stringify(input),
+      body: JSON.stringify({ ...scoreInputToJson(input), block }),
       signal: AbortSignal.timeout(15000),
     });
 
@@ -52,10 +68,29 @@ export async function GET(
       );
     }
 
-    const data = await res.json();
+    const data = (await res.json()) as SignedAttestation & { success?: boolean };
+
+    const check = checkAttestationBundle(data, TRUSTED_TEE_SIGNERS, { runningSigner: await getRunningTeeSigner() });
+    const verification = { status: check.status, problems: check.problems };
+
+    // Storing is best-effort: a DB failure must not hide a valid signed score.
+    let attestationId: number | null = null;
+    if (check.status !== "valid") {
+      console.warn(`[API /verify] not storing ${check.status} attestation for agent ${id}:`, check.problems.join(", "));
+    } else {
+      try {
+        attestationId = await recordAttestation(data, reputationSource);
+      } catch (e) {
+        console.warn("[API /verify] failed to store attestation:", String(e).slice(0, 200));
+      }
+    }
+
     return NextResponse.json({
       success: true,
       reputationSource,
+      ...(skippedAdjustments ? { skippedAdjustments } : {}),
+      attestationId,
+      verification,
       ...data,
     });
   } catch (e) {
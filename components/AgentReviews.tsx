@@ -0,0 +1,239 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { AgentReview, ReviewFilter, TagBucket } from "@/services/mandateReputation";
+
+interface ReviewsResponse {
+  success: boolean;
+  reviews: AgentReview[];
+  counts: Record<ReviewFilter, number>;
+  tags: TagBucket[];
+  page: number;
+  pages: number;
+}
+
+const FILTER_LABELS: Record<ReviewFilter, string> = {
+  all: "All",
+  positive: "Positive",
+  negative: "Negative",
+  revoked: "Revoked",
+};
+
+const PAGE_SIZE = 10;
+
+function shortAddr(addr: string): string {
+  return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+}
+
+function TagHistogram({
+  tags,
+  active,
+  onSelect,
+}: {
+  tags: TagBucket[];
+  active: string | null;
+  onSelect: (tag: string | null) => void;
+}) {
+  const max = Math.max(1, ...tags.map((t) => t.total));
+  return (
+    <div className="space-y-1.5">
+      {tags.map((t) => (
+        <button
+          key={t.tag}
+          onClick={() => onSelect(active === t.tag ? null : t.tag)}
+          className={`flex w-full items-center gap-2 text-left text-[11px] transition-opacity ${
+            active && active !== t.tag ? "opacity-40" : ""
+          }`}
+          title={`${t.positive} positive · ${t.negative} negative · ${t.revoked} revoked`}
+        >
+          <span className="w-24 truncate font-mono text-muted">{t.tag}</span>
+          <div className="flex h-1.5 flex-1 overflow-hidden rounded-full bg-border">
+            <div className="h-full bg-green-500" style={{ width: `${(t.positive / max) * 100}%` }} />
+            <div className="h-full bg-red-500" style={{ width: `${(t.negative / max) * 100}%` }} />
+            <div className="h-full bg-muted/40" style={{ width: `${(t.revoked / max) * 100}%` }} />
+          </div>
+          <span className="w-6 text-right font-mono text-foreground">{t.total}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ReviewItem({ review }: { review: AgentReview }) {
+  const tone = review.revoked
+    ? "text-muted line-through"
+    : review.displayValue > 0
+      ? "text-green-400"
+      : review.displayValue < 0
+        ? "text-red-400"
+        : "text-foreground";
+
+  return (
+    <div className={`rounded border border-border p-3 ${review.revoked ? "opacity-60" : ""}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          {review.reviewerAgent ? (
+            <Link
+              href={`/agent/${review.reviewerAgent.agentId}`}
+              className="text-sm font-medium text-foreground hover:underline"
+            >
+              {review.reviewerAgent.name || `Agent #${review.reviewerAgent.agentId}`}
+            </Link>
+          ) : null}
+          <a
+            href={`https://basescan.org/address/${review.client}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block font-mono text-[11px] text-muted hover:text-foreground"
+          >
+            {shortAddr(review.client)}
+          </a>
+        </div>
+        <div className="text-right">
+          <span className={`font-mono text-lg font-bold ${tone}`}>{review.displayValue}</span>
+          {review.revoked && (
+            <span className="block text-[10px] uppercase tracking-wider text-muted">Revoked</span>
+          )}
+        </div>
+      </div>
+
+      {(review.tag1 || review.tag2) && (
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {[review.tag1, review.tag2].filter(Boolean).map((tag, i) => (
+            <span key={i} className="rounded bg-border px-1.5 py-0.5 font-mono text-[10px] text-muted">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {review.feedbackUri && (
+        <a
+          href={review.feedbackUri}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-2 block truncate text-[11px] text-purple hover:underline"
+        >
+          {review.feedbackUri}
+        </a>
+      )}
+
+      {review.responses.length > 0 && (
+        <div className="mt-2 space-y-1 border-l-2 border-border pl-3">
+          {review.responses.map((r, i) => (
+            <div key={`${r.txHash}-${i}`} className="text-[11px] text-muted">
+              <span className="font-mono">{shortAddr(r.responder)}</span> responded
+              {r.responseUri && (
+                <>
+                  {": "}
+                  <a href={r.responseUri} target="_blank" rel="noopener noreferrer" className="text-purple hover:underline">
+                    {r.responseUri.length > 48 ? `${r.responseUri.slice(0, 48)}...` : r.responseUri}
+                  </a>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Reputation Registry reviews with filter tabs and a per-tag histogram (/api/agents/:id/reviews). */
+export function AgentReviews({ agentId }: { agentId: number }) {
+  const [filter, setFilter] = useState<ReviewFilter>("all");
+  const [tag, setTag] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<ReviewsResponse | null>(null);
+  const [reviews, setReviews] = useState<AgentReview[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({ filter, page: String(page), limit: String(PAGE_SIZE) });
+    if (tag) params.set("tag", tag);
+    fetch(`/api/agents/${agentId}/reviews?${params}`)
+      .then((res) => res.json())
+      .then((json: ReviewsResponse) => {
+        if (cancelled || !json?.success) return;
+        setData(json);
+        setReviews((current) => (page === 1 ? json.reviews : [...current, ...json.reviews]));
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId, filter, tag, page]);
+
+  const select = (next: { filter?: ReviewFilter; tag?: string | null }) => {
+    setLoading(true);
+    setPage(1);
+    if (next.filter !== undefined) setFilter(next.filter);
+    if (next.tag !== undefined) setTag(next.tag);
+  };
+
+  if (!data && loading) {
+    return <div className="py-6 text-center text-sm text-muted">Loading reviews...</div>;
+  }
+  if (!data || data.counts.all === 0) {
+    return <div className="py-6 text-center text-sm text-muted">No on-chain reviews yet.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-1.5">
+        {(Object.keys(FILTER_LABELS) as ReviewFilter[]).map((f) => (
+          <button
+            key={f}
+            onClick={() => select({ filter: f })}
+            className={`rounded border px-2.5 py-1 text-[11px] transition-colors ${
+              filter === f
+                ? "border-orange/60 bg-orange/10 text-foreground"
+                : "border-border text-muted hover:text-foreground"
+            }`}
+          >
+            {FILTER_LABELS[f]} <span className="font-mono">{data.counts[f]}</span>
+          </button>
+        ))}
+        {tag && (
+          <button
+            onClick={() => select({ tag: null })}
+            className="rounded border border-purple/40 px-2.5 py-1 font-mono text-[11px] text-purple"
+          >
+            {tag} ×
+          </button>
+        )}
+      </div>
+
+      {data.tags.length > 0 && (
+        <TagHistogram tags={data.tags} active={tag} onSelect={(t) => select({ tag: t })} />
+      )}
+
+      <div className="space-y-2">
+        {reviews.map((r) => (
+          <ReviewItem key={`${r.client}-${r.feedbackIndex}`} review={r} />
+        ))}
+        {reviews.length === 0 && !loading && (
+          <div className="py-4 text-center text-sm text-muted">No reviews match this filter.</div>
+        )}
+      </div>
+
+      {data.page < data.pages && (
+        <button
+          onClick={() => {
+            setLoading(true);
+            setPage((p) => p + 1);
+          }}
+          disabled={loading}
+          className="w-full rounded border border-border py-1.5 text-center text-[11px] text-muted transition-colors hover:text-foreground disabled:opacity-50"
+        >
+          {loading ? "Loading..." : "Show more"}
+        </button>
+      )}
+    </div>
+  );
+}
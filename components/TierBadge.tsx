@@ -0,0 +1,36 @@
+import { tierRank } from "@moltscore/scoring";
+
+/** Colors by position in the default ladder (0 = highest), so renamed tiers keep a color. */
+const RANK_STYLES = [
+  "border-green-500/40 bg-green-500/10 text-green-400",
+  "border-green-500/30 bg-green-500/5 text-green-500",
+  "border-lemon/40 bg-lemon/10 text-lemon",
+  "border-orange/40 bg-orange/10 text-orange",
+  "border-amber-500/40 bg-amber-500/10 text-amber-400",
+  "border-red-500/40 bg-red-500/10 text-red-400",
+];
+
+const UNKNOWN_STYLE = "border-border text-muted";
+
+export function TierBadge({
+  tier,
+  size = "sm",
+  title,
+}: {
+  tier: string | null;
+  size?: "sm" | "md";
+  title?: string;
+}) {
+  if (!tier) return null;
+  const rank = tierRank(tier);
+  const style = rank === null ? UNKNOWN_STYLE : RANK_STYLES[Math.min(rank, RANK_STYLES.length - 1)];
+  const sizing = size === "md" ? "px-2 py-0.5 text-xs" : "px-1.5 py-px text-[10px]";
+  return (
+    <span
+      title={title ?? `Tier ${tier}`}
+      className={`inline-block shrink-0 rounded border font-mono font-bold uppercase ${sizing} ${style}`}
+    >
+      {tier}
+    </span>
+  );
+}
@@ -1,29 +1,67 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { componentMaxima, computeScore, parseScoreInput, reportDataFor } from "@moltscore/scoring";
+import { TRUSTED_TEE_SIGNERS } from "@/config/teeSigners";
+import {
+  checkAttestationBundle,
+  type AttestationBundle,
+  type AttestationStatus,
+} from "@/lib/attestationVerifier";
 
-interface Attestation {
+interface VerifiedScore extends AttestationBundle {
+  reputationSource?: "onchain" | "moltlaunch" | null;
+  attestationId?: number | null;
+  /** Set when loaded from the attestation log instead of a fresh TEE call. */
+  createdAt?: string;
+}
+
+/** Platform attestation report from /api/tee/attestation (see eigencompute /attestation). */
+interface PlatformReport {
+  provider: string;
+  platform: string;
+  quote: string | null;
+  reportData: string;
+  nonce: string;
   signer: string;
-  signature: string;
-  message: string;
-  timestamp: number;
+  measurement: { imageDigest: string | null; codeHash: string };
+  production: boolean;
 }
 
-interface VerifiedScore {
-  reputationSource?: "onchain" | "moltlaunch";
-  score: {
-    agentId: number;
-    score: number;
-    components: {
-      peerReputation: number;
-      taskCompletion: number;
-      economicActivity: number;
-      identityCompleteness: number;
-    };
-    timestamp: number;
-    version: string;
+const STATUS_STYLES: Record<AttestationStatus, { label: string; box: string; text: string }> = {
+  valid: {
+    label: "Signature Verified",
+    box: "border-green-500/30 bg-green-500/10",
+    text: "text-green-400",
+  },
+  unknown_signer: {
+    label: "Unknown Signer",
+    box: "border-amber-500/30 bg-amber-500/10",
+    text: "text-amber-400",
+  },
+  tampered: {
+    label: "Tampered",
+    box: "border-red-500/30 bg-red-500/10",
+    text: "text-red-400",
+  },
+};
+
+function downloadBundle(data: VerifiedScore) {
+  const bundle = {
+    attestationId: data.attestationId ?? null,
+    reputationSource: data.reputationSource ?? null,
+    score: data.score,
+    attestation: data.attestation,
+    eip712: data.eip712 ?? null,
+    block: data.block ?? null,
   };
-  attestation: Attestation;
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `moltscore-attestation-${data.score.agentId}-${data.score.timestamp}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
 }
 
 function EigenCloudIcon({ className = "h-4 w-4" }: { className?: string }) {
@@ -42,17 +80,88 @@ export function VerifiableScore({ agentId }: { agentId: number }) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [expanded, setExpanded] = useState(false);
+  const [platform, setPlatform] = useState<PlatformReport | null>(null);
+
+  // Verified here in the browser, not by our API: recover the signer and look it up in
+  // the published TEE signer registry.
+  const check = useMemo(
+    () => (data ? checkAttestationBundle(data, TRUSTED_TEE_SIGNERS) : null),
+    [data]
+  );
+  const statusStyle = check ? STATUS_STYLES[check.status] : null;
+  // Confidence is not signed: derive it from the signed input and version (this also covers
+  // attestations stored before scores carried it).
+  const confidence = useMemo(() => {
+    if (!data) return null;
+    try {
+      return computeScore(parseScoreInput(data.score.input), data.score.version).confidence ?? null;
+    } catch {
+      return null;
+    }
+  }, [data]);
+  // Maxima of the signed version; null for a version this build does not know.
+  const maxima = useMemo(() => {
+    if (!data) return null;
+    try {
+      return componentMaxima(data.score.version);
+    } catch {
+      return null;
+    }
+  }, [data]);
+  // The quote only vouches for this score if it was issued for the key that signed it.
+  const platformBound =
+    platform && data ? platform.signer.toLowerCase() === data.attestation.signer.toLowerCase() : false;
+  // reportData must commit to the signer, our nonce and the measurement shown next to it.
+  // The quote's own signature chain is not checked here, so a matching quote stays "unverified".
+  const reportDataMatches = useMemo(() => {
+    if (!platform) return false;
+    try {
+      const expected = reportDataFor(
+        platform.signer,
+        platform.nonce,
+        platform.measurement.codeHash,
+        platform.measurement.imageDigest
+      );
+      return expected.toLowerCase() === platform.reportData?.toLowerCase();
+    } catch {
+      return false;
+    }
+  }, [platform]);
+
+  // Show the last stored attestation, if any, without a TEE round-trip.
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/agents/${agentId}/attestations?limit=1`)
+      .then((res) => res.json())
+      .then((json) => {
+        const last = json?.success ? json.attestations?.[0] : null;
+        if (!cancelled && last) {
+          setData((current) => current ?? { ...last, attestationId: last.id });
+        }
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId]);
 
   const verify = async () => {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch(`/api/verify/${agentId}`);
+      const nonce = crypto.randomUUID();
+      const [res, report] = await Promise.all([
+        fetch(`/api/verify/${agentId}`),
+        fetch(`/api/tee/attestation?nonce=${nonce}`)
+          .then((r) => (r.ok ? r.json() : null))
+          .catch(() => null),
+      ]);
       const json = await res.json();
       if (!json.success) {
         setError(json.error || "Verification failed");
       } else {
         setData(json);
+        setPlatform(report && report.nonce === nonce ? report : null);
       }
     } catch (e) {
       setError(e instanceof Error ? e.message : "Network error");
@@ -82,8 +191,8 @@ export function VerifiableScore({ agentId }: { agentId: number }) {
         </div>
 
         <p className="mb-4 text-[11px] leading-relaxed text-muted">
-          Score computed in a TEE (Trusted Execution Environment) on EigenCompute.
-          Cryptographically attested — the exact code that produced this score is verifiable.
+          Score computed in a TEE (Trusted Execution Environment) on EigenCompute and signed
+          by the enclave key. The platform quote ties that key to the measured code.
           {/* {data?.reputationSource && (
             <span className="mt-2 block font-mono text-[10px] text-muted">
               Reputation source: {data.reputationSource === "onchain" ? "on-chain (Mandate)" : "MoltLaunch API"}
@@ -126,25 +235,84 @@ export function VerifiableScore({ agentId }: { agentId: number }) {
         {data && (
           <div className="space-y-3">
             {/* Verified score display */}
-            <div className="flex items-center justify-between rounded-lg border border-green-500/30 bg-green-500/10 px-3 py-2">
-              <div className="flex items-center gap-2">
-                <svg className="h-4 w-4 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
-                </svg>
-                <span className="text-xs font-bold text-green-400">TEE Verified</span>
+            <div className={`rounded-lg border px-3 py-2 ${statusStyle?.box ?? ""}`}>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <svg className={`h-4 w-4 ${statusStyle?.text ?? ""}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                  </svg>
+                  <span className={`text-xs font-bold ${statusStyle?.text ?? ""}`}>{statusStyle?.label}</span>
+                </div>
+                <span className="font-mono text-lg font-bold text-foreground">
+                  {data.score.score}
+                </span>
               </div>
-              <span className="font-mono text-lg font-bold text-foreground">
-                {data.score.score}
-              </span>
+              {confidence && (
+                <p
+                  className={`mt-1 text-[10px] ${confidence.provisional ? "text-amber-400" : "text-muted"}`}
+                  title={`${confidence.reviews} effective reviews, ${confidence.mandates} mandates`}
+                >
+                  {confidence.provisional ? "Provisional: too little evidence. " : ""}
+                  95% interval {confidence.low}–{confidence.high}
+                </p>
+              )}
+              {check && check.status !== "tampered" && !check.production && (
+                <p className="mt-1 text-[10px] text-amber-400">
+                  Non-production signer
+                  {check.signerRecord ? ` (${check.signerRecord.environment})` : ""}: not a trusted score.
+                </p>
+              )}
+              {check?.status === "unknown_signer" && (
+                <p className="mt-1 text-[10px] text-amber-400">
+                  Signature is intact but {check.recoveredAddress ?? "the signer"} is not a registered TEE signer at signing time.
+                </p>
+              )}
+              {check?.status === "tampered" && (
+                <p className="mt-1 text-[10px] text-red-400">
+                  Does not match its signature: {check.problems.join(", ")}
+                </p>
+              )}
             </div>
 
+            {platform && (
+              <div className="rounded border border-border px-3 py-2 text-[10px]">
+                <div className="flex items-center justify-between">
+                  <span className="uppercase tracking-wider text-muted">Code measurement</span>
+                  {platform.production && platform.quote ? (
+                    !platformBound ? (
+                      <span className="text-red-400">quote signer mismatch</span>
+                    ) : !reportDataMatches ? (
+                      <span className="text-red-400">reportData mismatch</span>
+                    ) : (
+                      <span
+                        className="text-amber-400"
+                        title="reportData binds this signer, nonce and measurement; the quote itself is not checked in the browser"
+                      >
+                        {platform.platform} quote (unverified)
+                      </span>
+                    )
+                  ) : (
+                    <span className="text-amber-400">{platform.provider}: no hardware quote</span>
+                  )}
+                </div>
+                <code className="mt-1 block break-all font-mono text-foreground" title={platform.measurement.codeHash}>
+                  {platform.measurement.codeHash.slice(0, 23)}...
+                </code>
+                {platform.measurement.imageDigest && (
+                  <code className="block break-all font-mono text-muted" title={platform.measurement.imageDigest}>
+                    image {platform.measurement.imageDigest.slice(0, 23)}...
+                  </code>
+                )}
+              </div>
+            )}
+
             {/* Component breakdown */}
             <div className="space-y-1.5">
               {[
-                { label: "Peer Reputation", value: data.score.components.peerReputation, max: 40 },
-                { label: "Task Completion", value: data.score.components.taskCompletion, max: 30 },
-                { label: "Economic Activity", value: data.score.components.economicActivity, max: 20 },
-                { label: "Identity", value: data.score.components.identityCompleteness, max: 10 },
+                { label: "Peer Reputation", value: data.score.components.peerReputation, max: maxima?.peerReputation },
+                { label: "Task Completion", value: data.score.components.taskCompletion, max: maxima?.taskCompletion },
+                { label: "Economic Activity", value: data.score.components.economicActivity, max: maxima?.economicActivity },
+                { label: "Identity", value: data.score.components.identityCompleteness, max: maxima?.identityCompleteness },
               ].map((c) => (
                 <div key={c.label} className="flex items-center justify-between text-[11px]">
                   <span className="text-muted">{c.label}</span>
@@ -152,11 +320,11 @@ export function VerifiableScore({ agentId }: { agentId: number }) {
                     <div className="h-1 w-16 rounded-full bg-border">
                       <div
                         className="h-1 rounded-full bg-purple"
-                        style={{ width: `${c.max > 0 ? (c.value / c.max) * 100 : 0}%` }}
+                        style={{ width: `${c.max ? (c.value / c.max) * 100 : 0}%` }}
                       />
                     </div>
                     <span className="w-8 text-right font-mono font-medium text-foreground">
-                      {c.value}/{c.max}
+                      {c.max != null ? `${c.value}/${c.max}` : c.value}
                     </span>
                   </div>
                 </div>
@@ -178,12 +346,66 @@ export function VerifiableScore({ agentId }: { agentId: number }) {
                   <span className="block text-[9px] uppercase tracking-wider text-muted">TEE Signer</span>
                   <code className="font-mono text-foreground">{data.attestation.signer}</code>
                 </div>
+                <div>
+                  <span className="block text-[9px] uppercase tracking-wider text-muted">Recovered in browser</span>
+                  <code className="font-mono text-foreground">{check?.recoveredAddress ?? "—"}</code>
+                </div>
+                <div>
+                  <span className="block text-[9px] uppercase tracking-wider text-muted">Checks</span>
+                  <span className="font-mono text-foreground">
+                    {check?.inputBound ? "input hash ✓" : "input not bound"}
+                    {" · "}
+                    {check?.eip712Checked ? "EIP-712 ✓" : "no EIP-712"}
+                  </span>
+                </div>
+                <div>
+                  <span className="block text-[9px] uppercase tracking-wider text-muted">Source block</span>
+                  {check?.sourceBlock ? (
+                    <a
+                      href={`https://basescan.org/block/${check.sourceBlock.number}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-purple hover:underline"
+                      title={check.sourceBlock.hash}
+                    >
+                      #{check.sourceBlock.number} ↗
+                    </a>
+                  ) : (
+                    <span className="font-mono text-foreground">not pinned</span>
+                  )}
+                </div>
                 <div>
                   <span className="block text-[9px] uppercase tracking-wider text-muted">Signature</span>
                   <code className="block break-all font-mono text-purple">
                     {data.attestation.signature.slice(0, 42)}...
                   </code>
                 </div>
+                {platform && (
+                  <div>
+                    <span className="block text-[9px] uppercase tracking-wider text-muted">Platform quote</span>
+                    <a
+                      href="/api/tee/attestation"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-purple hover:underline"
+                    >
+                      {platform.provider} / {platform.platform} ↗
+                    </a>
+                  </div>
+                )}
+                {data.attestationId != null && (
+                  <div>
+                    <span className="block text-[9px] uppercase tracking-wider text-muted">Attestation</span>
+                    <a
+                      href={`/api/attestations/${data.attestationId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-purple hover:underline"
+                    >
+                      #{data.attestationId} ↗
+                    </a>
+                  </div>
+                )}
                 <div>
                   <span className="block text-[9px] uppercase tracking-wider text-muted">Scoring Version</span>
                   <code className="font-mono text-foreground">v{data.score.version}</code>
@@ -194,6 +416,12 @@ export function VerifiableScore({ agentId }: { agentId: number }) {
                     {new Date(data.score.timestamp * 1000).toISOString()}
                   </code>
                 </div>
+                <button
+                  onClick={() => downloadBundle(data)}
+                  className="mt-1 w-full rounded border border-border py-1.5 text-center text-[10px] text-muted transition-colors hover:text-foreground"
+                >
+                  Download attestation JSON
+                </button>
                 <a
                   href="https://docs.eigencloud.xyz/eigencompute/get-started/eigencompute-overview"
                   target="_blank"
@@ -205,6 +433,21 @@ export function VerifiableScore({ agentId }: { agentId: number }) {
               </div>
             )}
 
+            {data.createdAt && (
+              <div className="flex items-center justify-between text-[10px] text-muted">
+                <span>
+                  Last attested {new Date(data.createdAt).toLocaleString()}
+                </span>
+                <button
+                  onClick={verify}
+                  disabled={loading}
+                  className="text-purple transition-colors hover:underline disabled:opacity-50"
+                >
+                  {loading ? "Verifying..." : "Re-verify"}
+                </button>
+              </div>
+            )}
+
             <p className="text-center text-[9px] text-muted/60">
               Powered by{" "}
               <a href="https://eigencloud.xyz" target="_blank" rel="noopener noreferrer" className="text-purple hover:underline">
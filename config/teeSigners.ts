@@ -0,0 +1,24 @@
+/**
+ * TEE signers the app trusts: the published registry shared with the scoring service
+ * (eigencompute/src/scoring/signers.ts) plus optional staging / local signers from
+ * NEXT_PUBLIC_TEE_SIGNERS. The browser verifier in VerifiableScore only reports an
+ * attestation as valid when it recovers to one of these inside its validity window.
+ */
+
+import { SCORING_VERSIONS, TEE_SIGNERS, type SignerRecord } from "@moltscore/scoring";
+
+/** Extra signers for staging / local TEEs (comma-separated), always non-production. */
+const EXTRA_TEE_SIGNERS: SignerRecord[] = (process.env.NEXT_PUBLIC_TEE_SIGNERS || "")
+  .split(",")
+  .map((a) => a.trim())
+  .filter(Boolean)
+  .map((address) => ({
+    address,
+    label: "NEXT_PUBLIC_TEE_SIGNERS",
+    environment: "staging",
+    validFrom: 0,
+    validUntil: null,
+    scoringVersions: Object.keys(SCORING_VERSIONS),
+  }));
+
+export const TRUSTED_TEE_SIGNERS: readonly SignerRecord[] = [...TEE_SIGNERS, ...EXTRA_TEE_SIGNERS];
@@ -0,0 +1,11 @@
+/**
+ * Print the code hash of this checkout's src/ tree, to compare with the `codeHash` the
+ * running service reports from GET /attestation.
+ *
+ * Run: npm run code-hash
+ */
+
+import { resolve } from "path";
+import { computeCodeHash } from "./platformAttestation";
+
+console.log(computeCodeHash(resolve(__dirname)));
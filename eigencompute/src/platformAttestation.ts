@@ -0,0 +1,133 @@
+/**
+ * Platform attestation for the scoring service.
+ *
+ * The ECDSA signatures on scores only prove which key signed. The platform quote proves
+ * which code holds that key: it is produced by the TEE hardware/runtime, commits to the
+ * running image measurement and carries `reportData` that we bind to the signer address,
+ * the nonce and the reported code hash / image digest (reportDataFor), so a verifier can
+ * chain quote → measurement → signer → score.
+ *
+ * Providers:
+ *   - "http": fetches the quote from the platform attestation agent at
+ *     ATTESTATION_PROVIDER_URL (POST { reportData } → { quote, platform, measurement? }).
+ *   - "mock": no quote, for local runs. Reports are marked non-production.
+ */
+
+import { createHash } from "crypto";
+import { readdirSync, readFileSync, statSync } from "fs";
+import { join, relative, sep } from "path";
+import { reportDataFor } from "./scoring";
+
+export interface Measurement {
+  /** Container image digest (sha256:...), injected at deploy time as IMAGE_DIGEST. */
+  imageDigest: string | null;
+  /** sha256 over the service's src/ tree (see computeCodeHash); reproducible from git. */
+  codeHash: string;
+  /** Measurement registers reported by the platform (e.g. RTMRs), when available. */
+  platform?: Record<string, string>;
+}
+
+export interface AttestationReport {
+  provider: string;
+  platform: string;
+  /** Raw platform quote (base64); null for the mock provider. */
+  quote: string | null;
+  /** reportDataFor(signer, nonce, codeHash, imageDigest): the value the quote commits to. */
+  reportData: string;
+  nonce: string;
+  signer: string;
+  measurement: Measurement;
+  production: boolean;
+  generatedAt: number;
+}
+
+export interface AttestationProvider {
+  readonly name: string;
+  getQuote(reportData: string): Promise<{ quote: string | null; platform: string; measurement?: Record<string, string> }>;
+}
+
+/**
+ * sha256 over every file under `dir`, sorted by relative path, hashing
+ * "<path>\0<contents>\0" per file. Run `npm run code-hash` on a checkout to reproduce.
+ */
+export function computeCodeHash(dir: string): string {
+  const files: string[] = [];
+  const walk = (d: string) => {
+    for (const name of readdirSync(d)) {
+      const p = join(d, name);
+      if (statSync(p).isDirectory()) walk(p);
+      else files.push(p);
+    }
+  };
+  walk(dir);
+
+  const hash = createHash("sha256");
+  for (const rel of files.map((f) => relative(dir, f).split(sep).join("/")).sort()) {
+    hash.update(rel);
+    hash.update("\0");
+    hash.update(readFileSync(join(dir, rel)));
+    hash.update("\0");
+  }
+  return `sha256:${hash.digest("hex")}`;
+}
+
+export class MockAttestationProvider implements AttestationProvider {
+  readonly name = "mock";
+
+  async getQuote() {
+    return { quote: null, platform: "mock" };
+  }
+}
+
+export class HttpAttestationProvider implements AttestationProvider {
+  readonly name = "http";
+
+  constructor(private readonly url: string, private readonly timeoutMs = 10_000) {}
+
+  async getQuote(reportData: string) {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ reportData }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!res.ok) throw new Error(`Attestation provider returned ${res.status}`);
+    const body = (await res.json()) as { quote?: string; platform?: string; measurement?: Record<string, string> };
+    if (!body.quote) throw new Error("Attestation provider returned no quote");
+    return { quote: body.quote, platform: body.platform ?? "unknown", measurement: body.measurement };
+  }
+}
+
+/** ATTESTATION_PROVIDER=http|mock (default: http when ATTESTATION_PROVIDER_URL is set). */
+export function createAttestationProvider(env: NodeJS.ProcessEnv = process.env): AttestationProvider {
+  const kind = env.ATTESTATION_PROVIDER || (env.ATTESTATION_PROVIDER_URL ? "http" : "mock");
+  if (kind === "http") {
+    if (!env.ATTESTATION_PROVIDER_URL) throw new Error("ATTESTATION_PROVIDER=http requires ATTESTATION_PROVIDER_URL");
+    return new HttpAttestationProvider(env.ATTESTATION_PROVIDER_URL);
+  }
+  if (kind !== "mock") throw new Error(`Unknown ATTESTATION_PROVIDER: ${kind}`);
+  return new MockAttestationProvider();
+}
+
+export async function buildAttestationReport(opts: {
+  provider: AttestationProvider;
+  signer: string;
+  nonce: string;
+  codeHash: string;
+  imageDigest: string | null;
+  productionSigner: boolean;
+}): Promise<AttestationReport> {
+  const reportData = reportDataFor(opts.signer, opts.nonce, opts.codeHash, opts.imageDigest);
+  const { quote, platform, measurement } = await opts.provider.getQuote(reportData);
+  return {
+    provider: opts.provider.name,
+    platform,
+    quote,
+    reportData,
+    nonce: opts.nonce,
+    signer: opts.signer,
+    measurement: { imageDigest: opts.imageDigest, codeHash: opts.codeHash, ...(measurement ? { platform: measurement } : {}) },
+    production: opts.productionSigner && quote != null,
+    generatedAt: Math.floor(Date.now() / 1000),
+  };
+}
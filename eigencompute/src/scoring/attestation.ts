@@ -0,0 +1,290 @@
+/**
+ * EIP-712 score attestations.
+ *
+ * The TEE signs a typed `ScoreAttestation` struct under the MoltScore domain, so any
+ * verifier (including a Solidity contract via ecrecover) rebuilds the exact digest from
+ * the score fields instead of re-serializing a JSON string. The legacy personal_sign
+ * message is still returned alongside it.
+ *
+ * `blockNumber` / `blockHash` name the block the on-chain inputs were read at; both are
+ * zero when the input was not pinned (e.g. pre-fetched batch inputs). `decay` carries the
+ * recency parameters and reference time of recency-aware scores (recency.ts encodeDecay),
+ * and is empty otherwise.
+ */
+
+import { ethers } from "ethers";
+import { hashScoreInput, type ScoreInput } from "./input";
+import { computeScore, type ScoreOutput } from "./compute";
+import { merkleLeaf } from "./merkle";
+import { encodeDecay } from "./recency";
+import type { SourceBlock } from "./onchain";
+
+/** Base mainnet. */
+export const DEFAULT_ATTESTATION_CHAIN_ID = 8453;
+
+export function attestationDomain(chainId: number = DEFAULT_ATTESTATION_CHAIN_ID): ethers.TypedDataDomain {
+  return { name: "MoltScore", version: "1", chainId };
+}
+
+export const SCORE_ATTESTATION_TYPES: Record<string, ethers.TypedDataField[]> = {
+  ScoreAttestation: [
+    { name: "agentId", type: "uint256" },
+    { name: "score", type: "uint8" },
+    { name: "peerReputation", type: "uint8" },
+    { name: "taskCompletion", type: "uint8" },
+    { name: "economicActivity", type: "uint8" },
+    { name: "identityCompleteness", type: "uint8" },
+    { name: "inputHash", type: "bytes32" },
+    { name: "version", type: "string" },
+    { name: "timestamp", type: "uint64" },
+    { name: "decay", type: "string" },
+    { name: "blockNumber", type: "uint64" },
+    { name: "blockHash", type: "bytes32" },
+    { name: "chainId", type: "uint256" },
+  ],
+};
+
+export interface ScoreAttestationValue {
+  agentId: number;
+  score: number;
+  peerReputation: number;
+  taskCompletion: number;
+  economicActivity: number;
+  identityCompleteness: number;
+  inputHash: string;
+  version: string;
+  timestamp: number;
+  decay: string;
+  blockNumber: number;
+  blockHash: string;
+  chainId: number;
+}
+
+/** Typed-data signature as returned by the TEE next to the legacy attestation. */
+export interface TypedScoreAttestation {
+  domain: ethers.TypedDataDomain;
+  primaryType: "ScoreAttestation";
+  types: Record<string, ethers.TypedDataField[]>;
+  message: ScoreAttestationValue;
+  signature: string;
+  signer: string;
+}
+
+export function buildScoreAttestation(
+  score: ScoreOutput,
+  chainId: number = DEFAULT_ATTESTATION_CHAIN_ID,
+  block: SourceBlock | null = null
+): ScoreAttestationValue {
+  return {
+    agentId: score.agentId,
+    score: score.score,
+    peerReputation: score.components.peerReputation,
+    taskCompletion: score.components.taskCompletion,
+    economicActivity: score.components.economicActivity,
+    identityCompleteness: score.components.identityCompleteness,
+    inputHash: hashScoreInput(score.input),
+    version: score.version,
+    timestamp: score.timestamp,
+    decay: encodeDecay(score.recency),
+    blockNumber: block?.number ?? 0,
+    blockHash: block?.hash ?? ethers.ZeroHash,
+    chainId,
+  };
+}
+
+export async function signScoreAttestation(
+  signer: ethers.Signer,
+  score: ScoreOutput,
+  chainId: number = DEFAULT_ATTESTATION_CHAIN_ID,
+  block: SourceBlock | null = null
+): Promise<TypedScoreAttestation> {
+  const domain = attestationDomain(chainId);
+  const message = buildScoreAttestation(score, chainId, block);
+  const signature = await signer.signTypedData(domain, SCORE_ATTESTATION_TYPES, message);
+  return {
+    domain,
+    primaryType: "ScoreAttestation",
+    types: SCORE_ATTESTATION_TYPES,
+    message,
+    signature,
+    signer: await signer.getAddress(),
+  };
+}
+
+/**
+ * Recover the signer of a typed attestation. Uses the canonical domain and types, not the
+ * ones carried in the bundle, so a bundle cannot redefine what was signed.
+ */
+export function recoverScoreAttestationSigner(value: ScoreAttestationValue, signature: string): string {
+  return ethers.verifyTypedData(attestationDomain(value.chainId), SCORE_ATTESTATION_TYPES, value, signature);
+}
+
+/** The score fields an attestation (legacy or EIP-712) claims. */
+export interface AttestedClaim {
+  agentId: number;
+  score: number;
+  components: ScoreOutput["components"];
+  inputHash: string | null;
+  version: string;
+  /** Signed decay string; null for claims signed before it existed. */
+  decay: string | null;
+  /** Signed score timestamp (unix seconds); null when the signed message has none. */
+  timestamp: number | null;
+}
+
+/**
+ * Recompute the score from `input` with the claimed version and list every field where the
+ * claim disagrees (inputHash, agentId, score, component names, decay). No mismatches means the
+ * claim is exactly what the scoring code produces for this input.
+ * Throws UnknownScoringVersionError.
+ */
+export function compareClaimToInput(
+  claim: AttestedClaim,
+  input: ScoreInput
+): { mismatches: string[]; recomputed: ScoreOutput } {
+  const mismatches: string[] = [];
+  if (claim.inputHash == null || claim.inputHash.toLowerCase() !== hashScoreInput(input)) {
+    mismatches.push("inputHash");
+  }
+  const out = computeScore(input, claim.version);
+  if (claim.agentId !== out.agentId) mismatches.push("agentId");
+  if (claim.score !== out.score) mismatches.push("score");
+  for (const key of Object.keys(out.components) as (keyof ScoreOutput["components"])[]) {
+    if (claim.components?.[key] !== out.components[key]) mismatches.push(key);
+  }
+  if (claim.decay !== null && claim.decay !== encodeDecay(out.recency)) mismatches.push("decay");
+  return { mismatches, recomputed: out };
+}
+
+export function claimFromTypedAttestation(value: ScoreAttestationValue): AttestedClaim {
+  return {
+    agentId: Number(value.agentId),
+    score: Number(value.score),
+    components: {
+      peerReputation: Number(value.peerReputation),
+      taskCompletion: Number(value.taskCompletion),
+      economicActivity: Number(value.economicActivity),
+      identityCompleteness: Number(value.identityCompleteness),
+    },
+    inputHash: value.inputHash,
+    version: value.version,
+    decay: typeof value.decay === "string" ? value.decay : null,
+    timestamp: Number(value.timestamp),
+  };
+}
+
+/**
+ * Parse the legacy signed JSON message. Messages signed before inputHash existed give a null
+ * inputHash; messages without `decay` give "" (not recency-aware) when they carry an inputHash.
+ */
+export function claimFromLegacyMessage(message: string): AttestedClaim {
+  const m = JSON.parse(message) as Partial<AttestedClaim>;
+  const inputHash = typeof m.inputHash === "string" ? m.inputHash : null;
+  return {
+    agentId: Number(m.agentId),
+    score: Number(m.score),
+    components: m.components as AttestedClaim["components"],
+    inputHash,
+    version: String(m.version),
+    decay: typeof m.decay === "string" ? m.decay : inputHash ? "" : null,
+    timestamp: typeof m.timestamp === "number" ? m.timestamp : null,
+  };
+}
+
+/* ---------- Batch attestations ---------- */
+
+/** ABI types of a batch leaf: the ScoreAttestation fields minus the source block and chainId. */
+export const SCORE_LEAF_TYPES = [
+  "uint256", // agentId
+  "uint8", // score
+  "uint8", // peerReputation
+  "uint8", // taskCompletion
+  "uint8", // economicActivity
+  "uint8", // identityCompleteness
+  "bytes32", // inputHash
+  "string", // version
+  "uint64", // timestamp
+  "string", // decay
+] as const;
+
+export function scoreLeaf(score: ScoreOutput): string {
+  const v = buildScoreAttestation(score);
+  return merkleLeaf(SCORE_LEAF_TYPES, [
+    v.agentId,
+    v.score,
+    v.peerReputation,
+    v.taskCompletion,
+    v.economicActivity,
+    v.identityCompleteness,
+    v.inputHash,
+    v.version,
+    v.timestamp,
+    v.decay,
+  ]);
+}
+
+export const SCORE_BATCH_TYPES: Record<string, ethers.TypedDataField[]> = {
+  ScoreBatch: [
+    { name: "root", type: "bytes32" },
+    { name: "count", type: "uint32" },
+    { name: "version", type: "string" },
+    { name: "timestamp", type: "uint64" },
+    { name: "chainId", type: "uint256" },
+  ],
+};
+
+export interface ScoreBatchValue {
+  root: string;
+  count: number;
+  version: string;
+  timestamp: number;
+  chainId: number;
+}
+
+export interface TypedScoreBatch {
+  domain: ethers.TypedDataDomain;
+  primaryType: "ScoreBatch";
+  types: Record<string, ethers.TypedDataField[]>;
+  message: ScoreBatchValue;
+  signature: string;
+  signer: string;
+}
+
+export async function signScoreBatch(signer: ethers.Signer, value: ScoreBatchValue): Promise<TypedScoreBatch> {
+  const domain = attestationDomain(value.chainId);
+  const signature = await signer.signTypedData(domain, SCORE_BATCH_TYPES, value);
+  return {
+    domain,
+    primaryType: "ScoreBatch",
+    types: SCORE_BATCH_TYPES,
+    message: value,
+    signature,
+    signer: await signer.getAddress(),
+  };
+}
+
+export function recoverScoreBatchSigner(value: ScoreBatchValue, signature: string): string {
+  return ethers.verifyTypedData(attestationDomain(value.chainId), SCORE_BATCH_TYPES, value, signature);
+}
+
+/* ---------- Platform report data ---------- */
+
+/**
+ * Value a platform quote commits to (`reportData`): keccak256(abi.encode(signer, nonce,
+ * codeHash, imageDigest)), with "" for a missing image digest. Binding the measurement here
+ * means a quote issued for one build cannot be shown next to another build's code hash.
+ * Pure ethers, so browsers recompute it from the report they were given.
+ */
+export function reportDataFor(
+  signer: string,
+  nonce: string,
+  codeHash: string,
+  imageDigest: string | null
+): string {
+  return ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ["address", "string", "string", "string"],
+      [signer, nonce, codeHash, imageDigest ?? ""]
+    )
+  );
+}
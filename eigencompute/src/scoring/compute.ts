@@ -0,0 +1,251 @@
+/**
+ * Deterministic reputation scoring algorithm.
+ *
+ * Turns a ScoreInput (Identity, Reputation and Escrow data from Mandate Protocol)
+ * into a verifiable reputation score (0–100 scale).
+ *
+ * This runs inside an EigenCompute TEE, so the output is cryptographically
+ * attested — anyone can verify the exact code that produced a given score.
+ *
+ * Scoring components (weights per version, v1.0.0 shown):
+ *   1. Peer Reputation (40%) — on-chain reviews via Reputation Registry, weighted per
+ *      reviewer from v1.2.0 (reviewers.ts)
+ *   2. Task Completion (30%) — escrow mandate completions
+ *   3. Economic Activity (20%) — total escrow value transacted
+ *   4. Identity Completeness (10%) — metadata, skills, verification
+ *
+ * From v1.3.0 reviews and completions decay with age and idle agents lose points
+ * (recency.ts). From v1.4.0 disputed, refunded, rejected and cancelled worker mandates cost
+ * task completion points. Every score carries a confidence interval (confidence.ts).
+ */
+
+import { scoreConfidence, type ScoreConfidence } from "./confidence";
+import {
+  MANDATE_OUTCOME_KEYS,
+  scoreInputToJson,
+  type MandateOutcomes,
+  type ScoreInput,
+  type ScoreInputJson,
+} from "./input";
+import {
+  decayedCompletions,
+  idleDays,
+  inactivityPenalty,
+  reviewDecay,
+  type RecencyExplanation,
+} from "./recency";
+import { weighReviewers, type ReviewerWeighting } from "./reviewers";
+import { DEFAULT_SCORING_VERSION, getScoringVersion } from "./versions";
+
+/* ---------- Types ---------- */
+
+export interface ScoreOutput {
+  agentId: number;
+  score: number;
+  components: {
+    peerReputation: number;
+    taskCompletion: number;
+    economicActivity: number;
+    identityCompleteness: number;
+  };
+  input: ScoreInput;
+  timestamp: number;
+  version: string;
+  /** How each reviewer was weighted; only when the version weighs reviewers and the input has signals. */
+  reviewerWeighting?: ReviewerWeighting;
+  /** Decay and inactivity penalty; only for recency-aware versions with recency input. */
+  recency?: RecencyExplanation;
+  /** Task completion deductions; only when the version penalizes outcomes and the input has them. */
+  taskPenalties?: TaskPenaltyExplanation;
+  /**
+   * Score interval from review and mandate sample sizes; provisional when too wide. Always
+   * set by computeScore but not signed, so absent from older TEE responses and stored
+   * attestations (recompute from input and version).
+   */
+  confidence?: ScoreConfidence;
+}
+
+/** Which failed mandates cost task completion points, and how many. */
+export interface TaskPenaltyExplanation {
+  /** Per outcome: mandates counted, points per mandate and their product. */
+  outcomes: Record<keyof MandateOutcomes, { count: number; pointsEach: number; points: number }>;
+  /** Sum of the per-outcome points. */
+  total: number;
+  /** Points actually taken off (the component is floored at 0, so at most the points earned). */
+  deducted: number;
+}
+
+/** Wire form of ScoreOutput (what the TEE returns and signs over). */
+export type ScoreOutputJson = Omit<ScoreOutput, "input"> & { input: ScoreInputJson };
+
+export function scoreOutputToJson(out: ScoreOutput): ScoreOutputJson {
+  return { ...out, input: scoreInputToJson(out.input) };
+}
+
+/** Default algorithm version; see versions.ts for the registry. */
+export const SCORING_VERSION = DEFAULT_SCORING_VERSION;
+
+/* ---------- Deterministic scoring function ---------- */
+
+export type PeerReputationInput = Pick<ScoreInput, "feedbackCount" | "feedbackValue" | "reviewers" | "recency">;
+
+/**
+ * Peer reputation points for a version: feedback count and average value, weighted per
+ * reviewer when the version supports it and reviewer signals are present, and decayed by
+ * review age when the version is recency-aware and the input has dated reviews. Also used
+ * for per-tag sub-scores (services/tagReputation.ts in the app).
+ */
+export function scorePeerReputation(
+  input: PeerReputationInput,
+  version: string = DEFAULT_SCORING_VERSION
+): {
+  points: number;
+  /** Review count after weighting and decay, and the average value normalized to 0–1. */
+  effectiveCount: number;
+  normalizedAvg: number;
+  reviewerWeighting?: ReviewerWeighting;
+  decayedReviewCount?: number;
+} {
+  const { params } = getScoringVersion(version);
+  const peer = params.peerReputation;
+  let feedbackCount = input.feedbackCount;
+  let feedbackValue = input.feedbackValue;
+  let reviewerWeighting: ReviewerWeighting | undefined;
+  if (peer.reviewerWeighting && input.reviewers && input.reviewers.length > 0) {
+    reviewerWeighting = weighReviewers(input.reviewers, peer.reviewerWeighting);
+    feedbackCount = reviewerWeighting.weightedCount;
+    feedbackValue = reviewerWeighting.weightedValue;
+  }
+  let decayedReviewCount: number | undefined;
+  if (params.recency && input.recency && input.recency.reviews.length > 0) {
+    // Per review: reviewer weight × age decay; reviewers without a signal weigh 1
+    const weights = new Map(reviewerWeighting?.weights.map((w) => [w.address, w.weight]));
+    feedbackCount = 0;
+    feedbackValue = 0;
+    for (const review of input.recency.reviews) {
+      const w = (weights.get(review.reviewer) ?? 1) * reviewDecay(review, input.recency.asOf, params.recency);
+      feedbackCount += w;
+      feedbackValue += w * review.value;
+    }
+    decayedReviewCount = Math.round(feedbackCount * 1e6) / 1e6;
+  }
+  let points = 0;
+  let normalizedAvg = 0;
+  if (feedbackCount > 0) {
+    const avgValue = feedbackValue / feedbackCount;
+    // Normalize avg value to 0–1
+    normalizedAvg = Math.min(1, Math.max(0, avgValue / peer.valueScale));
+    // Count bonus: log scale, capped
+    const countBonus = Math.min(peer.countBonusMax, Math.log2(feedbackCount + 1) * peer.countBonusPerLog2);
+    points = Math.round(normalizedAvg * peer.avgPoints + countBonus);
+  }
+  return {
+    points,
+    effectiveCount: feedbackCount,
+    normalizedAvg,
+    ...(reviewerWeighting ? { reviewerWeighting } : {}),
+    ...(decayedReviewCount !== undefined ? { decayedReviewCount } : {}),
+  };
+}
+
+/**
+ * Score an input with the given algorithm version (default: DEFAULT_SCORING_VERSION).
+ * Throws UnknownScoringVersionError for versions not in the registry.
+ */
+export function computeScore(input: ScoreInput, version: string = DEFAULT_SCORING_VERSION): ScoreOutput {
+  const { params } = getScoringVersion(version);
+
+  // 1. Peer Reputation
+  const peer = scorePeerReputation(input, version);
+  const peerReputation = peer.points;
+  const reviewerWeighting = peer.reviewerWeighting;
+
+  // 2. Task Completion
+  // Recency-aware versions decay the volume bonus by completion age; the rate is not decayed
+  const task = params.taskCompletion;
+  const recency = params.recency && input.recency ? input.recency : null;
+  const decayedCompleted =
+    recency && params.recency && recency.completions.length > 0
+      ? Math.round(decayedCompletions(recency.completions, recency.asOf, params.recency) * 1e6) / 1e6
+      : null;
+  let taskCompletion = 0;
+  let completionRate = 0;
+  if (input.totalMandates > 0) {
+    completionRate = input.completedMandates / input.totalMandates;
+    // Volume bonus: log scale, capped
+    const volumeCount = decayedCompleted ?? input.completedMandates;
+    const volumeBonus = Math.min(task.volumeBonusMax, Math.log2(volumeCount + 1) * task.volumeBonusPerLog2);
+    taskCompletion = Math.round(completionRate * task.ratePoints + volumeBonus);
+  }
+  let taskPenalties: TaskPenaltyExplanation | undefined;
+  if (task.outcomePenalties && input.mandateOutcomes) {
+    const outcomes = {} as TaskPenaltyExplanation["outcomes"];
+    let total = 0;
+    for (const k of MANDATE_OUTCOME_KEYS) {
+      const count = input.mandateOutcomes[k];
+      const pointsEach = task.outcomePenalties[k];
+      outcomes[k] = { count, pointsEach, points: count * pointsEach };
+      total += count * pointsEach;
+    }
+    const deducted = Math.min(taskCompletion, total);
+    taskCompletion -= deducted;
+    taskPenalties = { outcomes, total, deducted };
+  }
+
+  // 3. Economic Activity
+  // v1.0.0 log scale: 0.01 ETH = ~6pts, 0.1 ETH = ~10pts, 1 ETH = ~15pts, 10 ETH = ~20pts
+  const econ = params.economicActivity;
+  let economicActivity = 0;
+  if (input.totalEscrowWei > BigInt(0)) {
+    const ethValue = Number(input.totalEscrowWei) / 1e18;
+    economicActivity = Math.min(econ.max, Math.round(Math.log10(ethValue * econ.ethScale + 1) * econ.perLog10));
+  }
+
+  // 4. Identity Completeness
+  const id = params.identityCompleteness;
+  let identityCompleteness = id.base; // Base: registered on-chain
+  if (input.hasMetadata) identityCompleteness += id.metadata;
+  if (input.hasSkills) identityCompleteness += id.skills;
+  if (input.ownerVerified) identityCompleteness += id.ownerVerified;
+
+  // 5. Inactivity penalty (recency-aware versions), off the total rather than a component
+  let recencyExplanation: RecencyExplanation | undefined;
+  let penalty = 0;
+  if (recency && params.recency) {
+    const days = idleDays(recency);
+    penalty = inactivityPenalty(days, params.recency);
+    recencyExplanation = {
+      asOf: recency.asOf,
+      params: params.recency,
+      decayedReviewCount: peer.decayedReviewCount ?? null,
+      decayedCompletions: decayedCompleted,
+      idleDays: days,
+      inactivityPenalty: penalty,
+    };
+  }
+
+  const total = Math.min(100, peerReputation + taskCompletion + economicActivity + identityCompleteness);
+  const score = Math.max(0, total - penalty);
+  const confidence = scoreConfidence(score, {
+    reviews: { p: peer.normalizedAvg, n: peer.effectiveCount, points: params.peerReputation.avgPoints },
+    mandates: { p: completionRate, n: input.totalMandates, points: task.ratePoints },
+  });
+
+  return {
+    agentId: input.agentId,
+    score,
+    components: {
+      peerReputation,
+      taskCompletion,
+      economicActivity,
+      identityCompleteness,
+    },
+    input,
+    timestamp: Math.floor(Date.now() / 1000),
+    version,
+    ...(reviewerWeighting ? { reviewerWeighting } : {}),
+    ...(recencyExplanation ? { recency: recencyExplanation } : {}),
+    ...(taskPenalties ? { taskPenalties } : {}),
+    confidence,
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Score confidence: how much evidence is behind a score (every version).
+ *
+ * Two terms of the score are proportions estimated from samples: the average review value
+ * (over effective reviews, after reviewer weighting and decay) and the task completion rate
+ * (over mandates). Each gets a Wilson score interval at CONFIDENCE_Z, and the score interval
+ * moves those two terms to their bounds while every other term stays fixed. A score whose
+ * interval is wider than PROVISIONAL_MAX_WIDTH points is provisional.
+ *
+ * Confidence is derived from the signed input and version, so it is not signed itself.
+ */
+
+/** z for a 95% interval. */
+export const CONFIDENCE_Z = 1.96;
+
+/** Scores with a wider interval (in points) are provisional. */
+export const PROVISIONAL_MAX_WIDTH = 20;
+
+/** One estimated proportion behind the score. */
+export interface ConfidenceSample {
+  /** Observed proportion, 0–1 (0 when there are no samples). */
+  p: number;
+  /** Sample size; may be fractional for weighted or decayed reviews. */
+  n: number;
+  /** Points the term is worth at p = 1. */
+  points: number;
+}
+
+export interface ScoreConfidence {
+  /** Score interval bounds, 0–100. */
+  low: number;
+  high: number;
+  /** 1 − interval width / 100, to two decimals. */
+  level: number;
+  provisional: boolean;
+  /** Effective review count behind peer reputation. */
+  reviews: number;
+  /** Mandates behind the completion rate. */
+  mandates: number;
+}
+
+/** Wilson score interval for proportion p over n samples; [0, 1] without samples. */
+export function wilsonInterval(p: number, n: number, z: number = CONFIDENCE_Z): { low: number; high: number } {
+  if (n <= 0) return { low: 0, high: 1 };
+  const z2 = z * z;
+  const center = p + z2 / (2 * n);
+  const margin = z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n));
+  const denom = 1 + z2 / n;
+  return {
+    low: Math.max(0, (center - margin) / denom),
+    high: Math.min(1, (center + margin) / denom),
+  };
+}
+
+export function scoreConfidence(
+  score: number,
+  samples: { reviews: ConfidenceSample; mandates: ConfidenceSample }
+): ScoreConfidence {
+  let down = 0;
+  let up = 0;
+  for (const s of [samples.reviews, samples.mandates]) {
+    const bounds = wilsonInterval(s.p, s.n);
+    down += Math.max(0, s.p - bounds.low) * s.points;
+    up += Math.max(0, bounds.high - s.p) * s.points;
+  }
+  const low = Math.max(0, Math.round(score - down));
+  const high = Math.min(100, Math.round(score + up));
+  return {
+    low,
+    high,
+    level: Math.round((1 - (high - low) / 100) * 100) / 100,
+    provisional: high - low > PROVISIONAL_MAX_WIDTH,
+    reviews: Math.round(samples.reviews.n * 1e6) / 1e6,
+    mandates: samples.mandates.n,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * MoltScore scoring module — shared by the EigenCompute TEE service and the Next.js app
+ * (imported there as `@moltscore/scoring`). One input schema, one computeScore, one tier
+ * ladder, so the score shown on a profile and the attested score cannot drift apart.
+ */
+
+export * from "./input";
+export * from "./compute";
+export * from "./versions";
+export * from "./reviewers";
+export * from "./recency";
+export * from "./confidence";
+export * from "./tiers";
+export * from "./attestation";
+export * from "./merkle";
+export * from "./leaderboard";
+export * from "./signers";
+export * from "./onchain";
@@ -0,0 +1,385 @@
+/**
+ * Score input schema shared by the TEE service and the MoltScore app.
+ *
+ * `ScoreInput` is the one input `computeScore` accepts. `ScoreInputJson` is its wire form
+ * (POST /score body): bigint fields travel as decimal strings. `encodeScoreInput` is the
+ * canonical encoding whose hash every attestation signs.
+ *
+ * `resolveScoreInput` is the single rule for merging data sources into a ScoreInput, so the
+ * app's cron scores and the TEE's attested scores are built the same way.
+ */
+
+import { ethers } from "ethers";
+import type { RecencyInput } from "./recency";
+import type { ReviewerSignal } from "./reviewers";
+
+export interface ScoreInput {
+  agentId: number;
+  feedbackCount: number;
+  feedbackValue: number;
+  completedMandates: number;
+  totalMandates: number;
+  totalEscrowWei: bigint;
+  hasMetadata: boolean;
+  hasSkills: boolean;
+  ownerVerified: boolean;
+  /**
+   * Per-reviewer signals for on-chain reviews (see reviewers.ts). When present, versions
+   * with reviewer weighting use them instead of feedbackCount / feedbackValue.
+   */
+  reviewers?: ReviewerSignal[];
+  /** Timestamps for recency-aware versions (see recency.ts). */
+  recency?: RecencyInput;
+  /** Worker mandates by failed outcome (indexed escrow); penalized from v1.4.0. */
+  mandateOutcomes?: MandateOutcomes;
+}
+
+/** Worker mandates whose current escrow status is one of these outcomes. */
+export interface MandateOutcomes {
+  disputed: number;
+  refunded: number;
+  rejected: number;
+  cancelled: number;
+}
+
+/** Outcome keys in canonical order. Append only. */
+export const MANDATE_OUTCOME_KEYS = ["disputed", "refunded", "rejected", "cancelled"] as const;
+
+export type ScoreInputJson = Omit<ScoreInput, "totalEscrowWei"> & { totalEscrowWei: string };
+
+export type ReputationSource = "onchain" | "moltlaunch";
+
+export class ScoreInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScoreInputError";
+  }
+}
+
+export function scoreInputToJson(input: ScoreInput): ScoreInputJson {
+  return { ...input, totalEscrowWei: input.totalEscrowWei.toString() };
+}
+
+/** Field order of the canonical encoding. Append only; reordering changes every hash. */
+const CANONICAL_KEYS = [
+  "agentId",
+  "feedbackCount",
+  "feedbackValue",
+  "completedMandates",
+  "totalMandates",
+  "totalEscrowWei",
+  "hasMetadata",
+  "hasSkills",
+  "ownerVerified",
+  "reviewers",
+  "recency",
+  "mandateOutcomes",
+] as const;
+
+/** Field order of each reviewers entry in the canonical encoding. */
+const REVIEWER_KEYS = ["address", "reviews", "valueSum", "sharesOwner", "txCount", "fundedBy"] as const;
+
+function canonicalReviewers(reviewers: ReviewerSignal[] | undefined) {
+  if (!reviewers) return undefined;
+  return [...reviewers]
+    .sort((a, b) => (a.address < b.address ? -1 : a.address > b.address ? 1 : 0))
+    .map((r) => Object.fromEntries(REVIEWER_KEYS.map((k) => [k, r[k]])));
+}
+
+/** recency with keys in a fixed order, reviews sorted by (reviewer, at, value), completions ascending. */
+function canonicalRecency(recency: RecencyInput | undefined) {
+  if (!recency) return undefined;
+  const reviews = [...recency.reviews].sort(
+    (a, b) =>
+      (a.reviewer < b.reviewer ? -1 : a.reviewer > b.reviewer ? 1 : 0) ||
+      (a.at ?? -1) - (b.at ?? -1) ||
+      a.value - b.value
+  );
+  return {
+    asOf: recency.asOf,
+    lastActiveAt: recency.lastActiveAt,
+    reviews: reviews.map((r) => ({ reviewer: r.reviewer, value: r.value, at: r.at })),
+    completions: [...recency.completions].sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Canonical encoding: compact JSON with keys in CANONICAL_KEYS order and totalEscrowWei as
+ * a decimal string, e.g.
+ * {"agentId":5,"feedbackCount":3,...,"totalEscrowWei":"1000000000000000000",...}
+ * `reviewers` is sorted by address with keys in REVIEWER_KEYS order; `recency` and
+ * `mandateOutcomes` are put in canonical order too. All three are omitted when absent, so
+ * inputs without them hash as before.
+ */
+export function encodeScoreInput(input: ScoreInput): string {
+  const json = {
+    ...scoreInputToJson(input),
+    reviewers: canonicalReviewers(input.reviewers),
+    recency: canonicalRecency(input.recency),
+    mandateOutcomes: input.mandateOutcomes
+      ? Object.fromEntries(MANDATE_OUTCOME_KEYS.map((k) => [k, input.mandateOutcomes![k]]))
+      : undefined,
+  };
+  return JSON.stringify(Object.fromEntries(CANONICAL_KEYS.map((k) => [k, json[k]])));
+}
+
+/** keccak256 of the canonical encoding, as 0x-prefixed lowercase hex. */
+export function hashScoreInput(input: ScoreInput): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(encodeScoreInput(input)));
+}
+
+function num(body: Record<string, unknown>, key: string): number {
+  const v = body[key] ?? 0;
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    throw new ScoreInputError(`${key} must be a number`);
+  }
+  return v;
+}
+
+function bool(body: Record<string, unknown>, key: string): boolean {
+  const v = body[key] ?? false;
+  if (typeof v !== "boolean") throw new ScoreInputError(`${key} must be a boolean`);
+  return v;
+}
+
+const ADDRESS_RE = /^0x[0-9a-f]{40}$/;
+
+function parseReviewers(raw: unknown): ReviewerSignal[] | undefined {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) throw new ScoreInputError("reviewers must be an array");
+  const seen = new Set<string>();
+  return raw.map((entry, i) => {
+    if (!entry || typeof entry !== "object") throw new ScoreInputError(`reviewers[${i}] must be an object`);
+    const r = entry as Record<string, unknown>;
+    const address = typeof r.address === "string" ? r.address.toLowerCase() : "";
+    if (!ADDRESS_RE.test(address)) throw new ScoreInputError(`reviewers[${i}].address must be an address`);
+    if (seen.has(address)) throw new ScoreInputError(`reviewers[${i}].address is duplicated`);
+    seen.add(address);
+    const fundedBy = r.fundedBy ?? null;
+    if (fundedBy !== null && (typeof fundedBy !== "string" || !ADDRESS_RE.test(fundedBy.toLowerCase()))) {
+      throw new ScoreInputError(`reviewers[${i}].fundedBy must be an address or null`);
+    }
+    const txCount = r.txCount ?? null;
+    if (txCount !== null && (typeof txCount !== "number" || !Number.isInteger(txCount) || txCount < 0)) {
+      throw new ScoreInputError(`reviewers[${i}].txCount must be a non-negative integer or null`);
+    }
+    return {
+      address,
+      reviews: num(r, "reviews"),
+      valueSum: num(r, "valueSum"),
+      sharesOwner: bool(r, "sharesOwner"),
+      txCount,
+      fundedBy: fundedBy === null ? null : fundedBy.toLowerCase(),
+    };
+  });
+}
+
+function timestamp(v: unknown, label: string, nullable: boolean): number | null {
+  if (v === null && nullable) return null;
+  if (typeof v !== "number" || !Number.isInteger(v) || v < 0) {
+    throw new ScoreInputError(`${label} must be unix seconds${nullable ? " or null" : ""}`);
+  }
+  return v;
+}
+
+function parseRecency(raw: unknown): RecencyInput | undefined {
+  if (raw === undefined) return undefined;
+  if (!raw || typeof raw !== "object") throw new ScoreInputError("recency must be an object");
+  const r = raw as Record<string, unknown>;
+  const reviews = r.reviews ?? [];
+  const completions = r.completions ?? [];
+  if (!Array.isArray(reviews)) throw new ScoreInputError("recency.reviews must be an array");
+  if (!Array.isArray(completions)) throw new ScoreInputError("recency.completions must be an array");
+  return {
+    asOf: timestamp(r.asOf, "recency.asOf", false)!,
+    lastActiveAt: timestamp(r.lastActiveAt ?? null, "recency.lastActiveAt", true),
+    reviews: reviews.map((entry, i) => {
+      if (!entry || typeof entry !== "object") throw new ScoreInputError(`recency.reviews[${i}] must be an object`);
+      const review = entry as Record<string, unknown>;
+      const reviewer = typeof review.reviewer === "string" ? review.reviewer.toLowerCase() : "";
+      if (!ADDRESS_RE.test(reviewer)) throw new ScoreInputError(`recency.reviews[${i}].reviewer must be an address`);
+      return {
+        reviewer,
+        value: num(review, "value"),
+        at: timestamp(review.at ?? null, `recency.reviews[${i}].at`, true),
+      };
+    }),
+    completions: completions.map((at, i) => timestamp(at, `recency.completions[${i}]`, false)!),
+  };
+}
+
+function parseMandateOutcomes(raw: unknown): MandateOutcomes | undefined {
+  if (raw === undefined) return undefined;
+  if (!raw || typeof raw !== "object") throw new ScoreInputError("mandateOutcomes must be an object");
+  const body = raw as Record<string, unknown>;
+  const out = {} as MandateOutcomes;
+  for (const k of MANDATE_OUTCOME_KEYS) {
+    const v = num(body, k);
+    if (!Number.isInteger(v) || v < 0) throw new ScoreInputError(`mandateOutcomes.${k} must be a non-negative integer`);
+    out[k] = v;
+  }
+  return out;
+}
+
+/**
+ * Parse a JSON score input (e.g. a POST /score body). Missing optional fields default to
+ * 0 / false; agentId is required. Throws ScoreInputError on malformed fields.
+ */
+export function parseScoreInput(raw: unknown): ScoreInput {
+  if (!raw || typeof raw !== "object") throw new ScoreInputError("body must be an object");
+  const body = raw as Record<string, unknown>;
+  if (typeof body.agentId !== "number" || !Number.isInteger(body.agentId) || body.agentId < 0) {
+    throw new ScoreInputError("agentId required");
+  }
+
+  const wei = body.totalEscrowWei ?? "0";
+  if (typeof wei !== "string" && typeof wei !== "number") {
+    throw new ScoreInputError("totalEscrowWei must be a decimal string");
+  }
+  let totalEscrowWei: bigint;
+  try {
+    totalEscrowWei = BigInt(wei);
+  } catch {
+    throw new ScoreInputError("totalEscrowWei must be a decimal string");
+  }
+
+  return {
+    agentId: body.agentId,
+    feedbackCount: num(body, "feedbackCount"),
+    feedbackValue: num(body, "feedbackValue"),
+    completedMandates: num(body, "completedMandates"),
+    totalMandates: num(body, "totalMandates"),
+    totalEscrowWei,
+    hasMetadata: bool(body, "hasMetadata"),
+    hasSkills: bool(body, "hasSkills"),
+    ownerVerified: bool(body, "ownerVerified"),
+    reviewers: parseReviewers(body.reviewers),
+    recency: parseRecency(body.recency),
+    mandateOutcomes: parseMandateOutcomes(body.mandateOutcomes),
+  };
+}
+
+/* ---------- Source merging ---------- */
+
+export interface ReputationTotals {
+  count: number;
+  /** Sum of review values in display units (value / 10^decimals). */
+  summaryValue: number;
+}
+
+/** Everything a score can be built from. Absent sources are null. */
+export interface ScoreSources {
+  agentId: number;
+  /** Identity Registry: tokenURI and ownerOf. */
+  identity: { agentURI: string | null; owner: string | null };
+  /** Reputation Registry getSummary over all clients. */
+  onchainReputation: ReputationTotals | null;
+  /** MoltLaunch API (off-chain) reputation and task counts. */
+  moltlaunch: { reputation: ReputationTotals | null; completedTasks: number; activeTasks: number } | null;
+  /** Escrow indexer aggregates (MoltScore app only). */
+  escrow: {
+    mandatesAsWorker: number;
+    mandatesCompleted: number;
+    totalEarnedWei: string;
+    /** Worker mandates by failed outcome; absent in escrow data indexed before outcomes were counted. */
+    outcomes?: MandateOutcomes;
+  } | null;
+  /** Indexed on-chain reviews per reviewer (MoltScore app only). */
+  reviewers?: ReviewerSignal[] | null;
+  /** Review and completion timestamps, last activity (MoltScore app only). */
+  recency?: RecencyInput | null;
+}
+
+/**
+ * Reputation adjustments whose signals were available but not applied: reviewer weighting
+ * and review decay describe on-chain reviews, while the score used MoltLaunch's off-chain
+ * totals, which have no per-review data to weight or age. Stored with the score
+ * (score_components.skippedAdjustments) so the explanation says why they are absent.
+ */
+export interface SkippedReputationAdjustments {
+  reputationSource: "moltlaunch";
+  adjustments: ("reviewerWeighting" | "reviewDecay")[];
+}
+
+/**
+ * Merge sources into a ScoreInput.
+ * - Reputation: MoltLaunch when it has any, else on-chain Reputation Registry. Reviewer
+ *   signals describe on-chain reviews, so they are attached only in the on-chain case;
+ *   with MoltLaunch reputation they are dropped and listed in `skippedAdjustments`.
+ * - Recency: review timestamps only with on-chain reputation (likewise listed when
+ *   dropped), completion timestamps only with indexed escrow tasks; asOf and last activity
+ *   always.
+ * - Tasks: indexed escrow mandates (with failed outcomes) when the agent has any, else
+ *   MoltLaunch task counts.
+ * - Escrow value: indexed earned wei.
+ * - Identity: always on-chain.
+ */
+export function resolveScoreInput(sources: ScoreSources): {
+  input: ScoreInput;
+  reputationSource: ReputationSource;
+  skippedAdjustments?: SkippedReputationAdjustments;
+} {
+  let feedbackCount = 0;
+  let feedbackValue = 0;
+  let reputationSource: ReputationSource = "onchain";
+
+  const molt = sources.moltlaunch;
+  if (molt?.reputation && (molt.reputation.count > 0 || molt.reputation.summaryValue > 0)) {
+    feedbackCount = molt.reputation.count;
+    feedbackValue = molt.reputation.summaryValue;
+    reputationSource = "moltlaunch";
+  } else if (sources.onchainReputation && sources.onchainReputation.count > 0) {
+    feedbackCount = sources.onchainReputation.count;
+    feedbackValue = sources.onchainReputation.summaryValue;
+  }
+
+  let completedMandates = molt?.completedTasks ?? 0;
+  let totalMandates = completedMandates + (molt?.activeTasks ?? 0);
+  let mandateOutcomes: MandateOutcomes | undefined;
+  if (sources.escrow && sources.escrow.mandatesAsWorker > 0) {
+    completedMandates = sources.escrow.mandatesCompleted;
+    totalMandates = sources.escrow.mandatesAsWorker;
+    mandateOutcomes = sources.escrow.outcomes;
+  }
+
+  const reviewers =
+    reputationSource === "onchain" && sources.reviewers && sources.reviewers.length > 0
+      ? sources.reviewers
+      : undefined;
+
+  const recency = sources.recency
+    ? {
+        ...sources.recency,
+        reviews: reputationSource === "onchain" ? sources.recency.reviews : [],
+        completions: sources.escrow && sources.escrow.mandatesAsWorker > 0 ? sources.recency.completions : [],
+      }
+    : undefined;
+
+  const skipped: SkippedReputationAdjustments["adjustments"] = [];
+  if (reputationSource === "moltlaunch") {
+    if (sources.reviewers && sources.reviewers.length > 0) skipped.push("reviewerWeighting");
+    if (sources.recency && sources.recency.reviews.length > 0) skipped.push("reviewDecay");
+  }
+
+  const uri = sources.identity.agentURI ?? "";
+  const owner = sources.identity.owner;
+
+  return {
+    input: {
+      agentId: sources.agentId,
+      feedbackCount,
+      feedbackValue,
+      completedMandates,
+      totalMandates,
+      totalEscrowWei: BigInt(sources.escrow?.totalEarnedWei || "0"),
+      hasMetadata: uri.length > 0,
+      hasSkills: uri.includes("skills") || uri.includes("endpoint"),
+      ownerVerified: Boolean(owner && owner !== ethers.ZeroAddress),
+      ...(reviewers ? { reviewers } : {}),
+      ...(recency ? { recency } : {}),
+      ...(mandateOutcomes ? { mandateOutcomes } : {}),
+    },
+    reputationSource,
+    ...(skipped.length > 0 ? { skippedAdjustments: { reputationSource: "moltlaunch" as const, adjustments: skipped } } : {}),
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Leaderboard snapshots: every agent ranked by score, committed to one Merkle root that the
+ * TEE signs. A single (agentId, rank, score, tier, version) leaf plus its proof lets anyone
+ * check one agent's position against the signed root.
+ *
+ * Ranking is deterministic so the app and the TEE build the same tree from the same inputs:
+ * score descending, then agentId ascending; ranks are 1..n with no ties.
+ */
+
+import { ethers } from "ethers";
+import type { ScoreInput } from "./input";
+import { computeScore } from "./compute";
+import { assignTier } from "./tiers";
+import { attestationDomain } from "./attestation";
+import { buildMerkleTree, merkleLeaf, type MerkleTree } from "./merkle";
+
+export interface LeaderboardEntry {
+  agentId: number;
+  rank: number;
+  score: number;
+  tier: string;
+  version: string;
+}
+
+export const LEADERBOARD_LEAF_TYPES = [
+  "uint256", // agentId
+  "uint32", // rank
+  "uint8", // score
+  "string", // tier
+  "string", // version
+] as const;
+
+export function leaderboardLeaf(e: LeaderboardEntry): string {
+  return merkleLeaf(LEADERBOARD_LEAF_TYPES, [e.agentId, e.rank, e.score, e.tier, e.version]);
+}
+
+/** Rank already-computed scores. */
+export function rankLeaderboard(scores: { agentId: number; score: number }[], version: string): LeaderboardEntry[] {
+  return [...scores]
+    .sort((a, b) => b.score - a.score || a.agentId - b.agentId)
+    .map((s, i) => ({ agentId: s.agentId, rank: i + 1, score: s.score, tier: assignTier(s.score, version), version }));
+}
+
+/** Score every input with `version` and rank the results. */
+export function buildLeaderboard(inputs: ScoreInput[], version: string): LeaderboardEntry[] {
+  return rankLeaderboard(
+    inputs.map((input) => ({ agentId: input.agentId, score: computeScore(input, version).score })),
+    version
+  );
+}
+
+/** Tree over entries in rank order (leaf index = rank - 1). */
+export function buildLeaderboardTree(entries: LeaderboardEntry[]): MerkleTree {
+  return buildMerkleTree(entries.map(leaderboardLeaf));
+}
+
+/* ---------- Signed root ---------- */
+
+export const LEADERBOARD_SNAPSHOT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  LeaderboardSnapshot: [
+    { name: "root", type: "bytes32" },
+    { name: "count", type: "uint32" },
+    { name: "version", type: "string" },
+    { name: "timestamp", type: "uint64" },
+    { name: "chainId", type: "uint256" },
+  ],
+};
+
+export interface LeaderboardSnapshotValue {
+  root: string;
+  count: number;
+  version: string;
+  timestamp: number;
+  chainId: number;
+}
+
+export interface TypedLeaderboardSnapshot {
+  domain: ethers.TypedDataDomain;
+  primaryType: "LeaderboardSnapshot";
+  types: Record<string, ethers.TypedDataField[]>;
+  message: LeaderboardSnapshotValue;
+  signature: string;
+  signer: string;
+}
+
+export async function signLeaderboardSnapshot(
+  signer: ethers.Signer,
+  value: LeaderboardSnapshotValue
+): Promise<TypedLeaderboardSnapshot> {
+  const domain = attestationDomain(value.chainId);
+  const signature = await signer.signTypedData(domain, LEADERBOARD_SNAPSHOT_TYPES, value);
+  return {
+    domain,
+    primaryType: "LeaderboardSnapshot",
+    types: LEADERBOARD_SNAPSHOT_TYPES,
+    message: value,
+    signature,
+    signer: await signer.getAddress(),
+  };
+}
+
+export function recoverLeaderboardSnapshotSigner(value: LeaderboardSnapshotValue, signature: string): string {
+  return ethers.verifyTypedData(attestationDomain(value.chainId), LEADERBOARD_SNAPSHOT_TYPES, value, signature);
+}
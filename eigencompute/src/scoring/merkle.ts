@@ -0,0 +1,63 @@
+/**
+ * Minimal Merkle tree for batch and leaderboard attestations.
+ *
+ * Compatible with OpenZeppelin's MerkleProof.verify: leaves are
+ * keccak256(keccak256(abi.encode(...))) and each parent is keccak256 of its two children
+ * sorted ascending, so a proof is just the list of sibling hashes. An odd node at the end
+ * of a layer is carried up unchanged.
+ */
+
+import { ethers } from "ethers";
+
+const abi = ethers.AbiCoder.defaultAbiCoder();
+
+/** Double-hashed ABI-encoded leaf (second-preimage safe). */
+export function merkleLeaf(types: readonly string[], values: readonly unknown[]): string {
+  return ethers.keccak256(ethers.keccak256(abi.encode(types, values)));
+}
+
+function hashPair(a: string, b: string): string {
+  return a.toLowerCase() < b.toLowerCase()
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+export interface MerkleTree {
+  root: string;
+  /** layers[0] = leaves (in input order), last layer = [root]. */
+  layers: string[][];
+}
+
+export function buildMerkleTree(leaves: string[]): MerkleTree {
+  if (leaves.length === 0) throw new Error("Merkle tree needs at least one leaf");
+  const layers: string[][] = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const prev = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < prev.length; i += 2) {
+      next.push(i + 1 < prev.length ? hashPair(prev[i], prev[i + 1]) : prev[i]);
+    }
+    layers.push(next);
+  }
+  return { root: layers[layers.length - 1][0], layers };
+}
+
+/** Sibling hashes from leaf `index` up to the root. */
+export function getMerkleProof(tree: MerkleTree, index: number): string[] {
+  if (index < 0 || index >= tree.layers[0].length) throw new Error(`Leaf index ${index} out of range`);
+  const proof: string[] = [];
+  let i = index;
+  for (let level = 0; level < tree.layers.length - 1; level++) {
+    const layer = tree.layers[level];
+    const sibling = i % 2 === 0 ? i + 1 : i - 1;
+    if (sibling < layer.length) proof.push(layer[sibling]);
+    i = Math.floor(i / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  let hash = leaf;
+  for (const sibling of proof) hash = hashPair(hash, sibling);
+  return hash.toLowerCase() === root.toLowerCase();
+}
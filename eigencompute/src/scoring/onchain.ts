@@ -0,0 +1,145 @@
+/**
+ * On-chain reads for scoring (Identity + Reputation registries on Base).
+ * Used by the TEE's GET /score/:agentId and by the app's buildScoreInputForTee, so both
+ * read the same contracts with the same calls.
+ *
+ * Every call can be pinned to one block (`resolveSourceBlock` → `blockTag`), so two
+ * verifiers reading a few seconds apart get the same input, and anyone with an archive
+ * node or a local fork can replay it.
+ */
+
+import { ethers } from "ethers";
+import { resolveScoreInput, type ScoreInput, type ScoreSources } from "./input";
+
+/* ---------- Contract addresses (Base Mainnet) ---------- */
+
+export const IDENTITY_REGISTRY = "0x8004A169FB4a3325136EB29fA0ceB6D2e539a432";
+export const REPUTATION_REGISTRY = "0x8004BAa17C55a88189AE136b182e5fdA19dE9b63";
+export const ESCROW_CONTRACT = "0x5Df1ffa02c8515a0Fed7d0e5d6375FcD2c1950Ee";
+
+/* ---------- Minimal ABIs ---------- */
+
+const IDENTITY_ABI = [
+  "function tokenURI(uint256 agentId) view returns (string)",
+  "function getAgentWallet(uint256 agentId) view returns (address)",
+  "function ownerOf(uint256 agentId) view returns (address)",
+];
+
+const REPUTATION_ABI = [
+  "function getClients(uint256 agentId) view returns (address[])",
+  "function getSummary(uint256 agentId, address[] clientAddresses, string tag1, string tag2) view returns (uint64 count, int128 summaryValue, uint8 summaryValueDecimals)",
+];
+
+/* ---------- Block pinning ---------- */
+
+/** The block a score input's on-chain reads were pinned to; signed into the attestation. */
+export interface SourceBlock {
+  number: number;
+  hash: string;
+}
+
+const NAMED_BLOCK_TAGS = ["latest", "safe", "finalized"];
+
+/**
+ * Parse a blockTag query/body value: a block number (decimal or 0x hex) or one of
+ * latest / safe / finalized. Null when malformed.
+ */
+export function parseBlockTag(raw: unknown): number | string | null {
+  if (typeof raw === "number") return Number.isInteger(raw) && raw >= 0 ? raw : null;
+  if (typeof raw !== "string") return null;
+  const tag = raw.trim().toLowerCase();
+  if (NAMED_BLOCK_TAGS.includes(tag)) return tag;
+  if (/^\d+$/.test(tag) || /^0x[0-9a-f]+$/.test(tag)) {
+    const n = Number(tag);
+    return Number.isSafeInteger(n) ? n : null;
+  }
+  return null;
+}
+
+/** Resolve a tag to a concrete block. Reads are then pinned to its number. */
+export async function resolveSourceBlock(
+  provider: ethers.Provider,
+  blockTag: number | string = "latest"
+): Promise<SourceBlock> {
+  const block = await provider.getBlock(blockTag);
+  if (!block?.hash) throw new Error(`Block ${blockTag} not found`);
+  return { number: block.number, hash: block.hash };
+}
+
+/* ---------- On-chain data fetching ---------- */
+
+export type OnchainSources = Pick<ScoreSources, "agentId" | "identity" | "onchainReputation">;
+
+/** The contract reverted (e.g. ownerOf for an unregistered agent), as opposed to an RPC failure. */
+function isContractRevert(e: unknown): boolean {
+  return ethers.isError(e, "CALL_EXCEPTION") && e.data != null;
+}
+
+/** Null when the call reverts; RPC failures are rethrown. */
+function orNullOnRevert<T>(call: Promise<T>): Promise<T | null> {
+  return call.catch((e) => {
+    if (isContractRevert(e)) return null;
+    throw e;
+  });
+}
+
+/**
+ * Read identity (tokenURI, ownerOf) and on-chain reputation (getSummary over all clients).
+ * Calls the contracts revert (missing agents, agents not in the Reputation Registry) yield
+ * empty values; RPC and transport errors throw, so a failed read never becomes an empty
+ * input that gets scored and signed. With `blockTag`, every call reads state at that block.
+ */
+export async function fetchOnchainSources(
+  runner: ethers.ContractRunner,
+  agentId: number,
+  blockTag?: number
+): Promise<OnchainSources> {
+  const identity = new ethers.Contract(IDENTITY_REGISTRY, IDENTITY_ABI, runner);
+  const reputation = new ethers.Contract(REPUTATION_REGISTRY, REPUTATION_ABI, runner);
+  const overrides = blockTag == null ? {} : { blockTag };
+
+  const [agentURI, owner] = await Promise.all([
+    orNullOnRevert(identity.tokenURI(agentId, overrides) as Promise<string>),
+    orNullOnRevert(identity.ownerOf(agentId, overrides) as Promise<string>),
+  ]);
+
+  // Mandate Protocol's ON-CHAIN Reputation Registry only. MoltLaunch API reputation
+  // comes from their backend; if it is not written to this contract, getClients is empty.
+  let onchainReputation: OnchainSources["onchainReputation"] = null;
+  try {
+    const clients: string[] = [...(await reputation.getClients(agentId, overrides))];
+    onchainReputation = { count: 0, summaryValue: 0 };
+    if (clients.length > 0) {
+      const [count, summaryValue, decimals] = await reputation.getSummary(agentId, clients, "", "", overrides);
+      // Display units (value / 10^decimals), rounded like the cron's avg_feedback_value × count,
+      // so both paths feed resolveScoreInput the same total.
+      onchainReputation = {
+        count: Number(count),
+        summaryValue: Math.round(Number(ethers.formatUnits(summaryValue, Number(decimals)))),
+      };
+    }
+  } catch (e) {
+    // A revert means no reputation data (e.g. agent not in this registry)
+    if (!isContractRevert(e)) throw e;
+    onchainReputation = null;
+  }
+
+  return { agentId, identity: { agentURI, owner }, onchainReputation };
+}
+
+/**
+ * Score input from on-chain data only (TEE GET /score/:agentId).
+ *
+ * Task completion & economic activity: per-agent escrow data needs the MoltScore escrow
+ * indexer (services/mandateEscrow.ts), which the TEE does not have. The app sends indexed
+ * completedMandates/totalMandates/totalEscrowWei via POST /score; this path leaves them 0,
+ * so it only reflects: (1) Peer reputation from Reputation Registry, (2) Identity completeness.
+ */
+export async function fetchScoreInput(
+  runner: ethers.ContractRunner,
+  agentId: number,
+  blockTag?: number
+): Promise<ScoreInput> {
+  const onchain = await fetchOnchainSources(runner, agentId, blockTag);
+  return resolveScoreInput({ ...onchain, moltlaunch: null, escrow: null }).input;
+}
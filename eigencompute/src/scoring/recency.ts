@@ -0,0 +1,106 @@
+/**
+ * Recency-aware scoring (from v1.3.0).
+ *
+ * Reviews and escrow completions lose weight with age, halving every `*HalfLifeDays`
+ * (factor 0.5^(age / halfLife)). Ages are measured from `RecencyInput.asOf`, never from the
+ * clock, so a decayed score is reproducible from its input. Agents idle for longer than
+ * `inactivityGraceDays` lose `inactivityPenaltyPer30Days` points per 30 idle days, up to
+ * `inactivityPenaltyMax`, off the total score.
+ *
+ * The parameters and `asOf` are signed with every attestation (`decay`, see encodeDecay).
+ */
+
+export interface RecencyReview {
+  /** Reviewer address, lowercase; matches ReviewerSignal.address for reviewer weights. */
+  reviewer: string;
+  /** Review value in display units (value / 10^decimals). */
+  value: number;
+  /** Unix seconds of the review's block; null when unknown (e.g. backfilled reviews). */
+  at: number | null;
+}
+
+export interface RecencyInput {
+  /** Reference time (unix seconds) every age is measured from. */
+  asOf: number;
+  /** Last activity (unix seconds) reported by MoltLaunch; null when unknown. */
+  lastActiveAt: number | null;
+  /** Non-revoked on-chain reviews; replaces feedbackCount / feedbackValue when non-empty. */
+  reviews: RecencyReview[];
+  /** Unix seconds of each completed escrow mandate; decays the task volume bonus. */
+  completions: number[];
+}
+
+export interface RecencyParams {
+  reviewHalfLifeDays: number;
+  completionHalfLifeDays: number;
+  /** Decay factor for reviews without a timestamp. */
+  undatedReviewFactor: number;
+  inactivityGraceDays: number;
+  inactivityPenaltyPer30Days: number;
+  inactivityPenaltyMax: number;
+}
+
+/** What recency changed, returned with the score. */
+export interface RecencyExplanation {
+  asOf: number;
+  params: RecencyParams;
+  /** Decayed (and reviewer-weighted) review count; null when reviews were not decayed. */
+  decayedReviewCount: number | null;
+  /** Decayed completion count used for the volume bonus; null when completions were not decayed. */
+  decayedCompletions: number | null;
+  /** Days since the latest of lastActiveAt and the latest completion; null when unknown. */
+  idleDays: number | null;
+  inactivityPenalty: number;
+}
+
+const DAY = 86_400;
+
+/** 0.5^(age / halfLife); 1 for timestamps at or after asOf. */
+export function decayFactor(at: number, asOf: number, halfLifeDays: number): number {
+  const ageDays = (asOf - at) / DAY;
+  if (ageDays <= 0) return 1;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+export function reviewDecay(review: RecencyReview, asOf: number, params: RecencyParams): number {
+  return review.at === null ? params.undatedReviewFactor : decayFactor(review.at, asOf, params.reviewHalfLifeDays);
+}
+
+export function decayedCompletions(completions: readonly number[], asOf: number, params: RecencyParams): number {
+  return completions.reduce((n, at) => n + decayFactor(at, asOf, params.completionHalfLifeDays), 0);
+}
+
+/** Whole days since the agent's latest known activity, or null. */
+export function idleDays(recency: RecencyInput): number | null {
+  const latest = Math.max(recency.lastActiveAt ?? 0, ...recency.completions);
+  if (latest <= 0) return null;
+  return Math.max(0, Math.floor((recency.asOf - latest) / DAY));
+}
+
+export function inactivityPenalty(days: number | null, params: RecencyParams): number {
+  if (days === null || days <= params.inactivityGraceDays) return 0;
+  const penalty = Math.round(((days - params.inactivityGraceDays) / 30) * params.inactivityPenaltyPer30Days);
+  return Math.min(params.inactivityPenaltyMax, penalty);
+}
+
+/** Field order of the decay parameters in encodeDecay. Append only. */
+const DECAY_KEYS = [
+  "reviewHalfLifeDays",
+  "completionHalfLifeDays",
+  "undatedReviewFactor",
+  "inactivityGraceDays",
+  "inactivityPenaltyPer30Days",
+  "inactivityPenaltyMax",
+] as const;
+
+/**
+ * Canonical decay string signed in attestations: compact JSON of asOf followed by the
+ * parameters in DECAY_KEYS order, or "" when the score was not recency-aware.
+ */
+export function encodeDecay(recency: RecencyExplanation | undefined): string {
+  if (!recency) return "";
+  return JSON.stringify({
+    asOf: recency.asOf,
+    ...Object.fromEntries(DECAY_KEYS.map((k) => [k, recency.params[k]])),
+  });
+}
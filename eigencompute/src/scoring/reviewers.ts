@@ -0,0 +1,118 @@
+/**
+ * Reviewer weighting for the peer reputation component.
+ *
+ * A review counts with its reviewer's weight (0–1). Weights start at 1 and are multiplied by
+ * one factor per discount that applies:
+ *   - shared_owner: the reviewer is the agent's owner, or the owner or wallet of another
+ *     agent with the same owner.
+ *   - no_history: the reviewer has sent fewer than `minTxCount` transactions.
+ *   - funding_cluster: `clusterMinSize` or more of the agent's reviewers were first funded
+ *     by the same address. The cluster shares one reviewer's weight (factor 1 / size).
+ *
+ * Signals are gathered outside the scoring path (indexed reviews plus cached per-address
+ * lookups in the app) and travel inside ScoreInput, so they are covered by the input hash.
+ */
+
+export interface ReviewerSignal {
+  /** Reviewer (Reputation Registry client) address, lowercase. */
+  address: string;
+  /** Non-revoked reviews this reviewer gave the agent. */
+  reviews: number;
+  /** Sum of those reviews' values, in display units (value / 10^decimals). */
+  valueSum: number;
+  sharesOwner: boolean;
+  /** Outgoing transaction count (nonce); null when not looked up yet (no discount). */
+  txCount: number | null;
+  /** Address that first funded the reviewer; null when unknown. */
+  fundedBy: string | null;
+}
+
+export interface ReviewerWeightingParams {
+  /** Factor for reviewers that share an owner with the agent. */
+  sharedOwnerFactor: number;
+  /** Factor for reviewers with fewer than minTxCount outgoing transactions. */
+  noHistoryFactor: number;
+  minTxCount: number;
+  /** Reviewers funded by one address form a cluster from this size on. */
+  clusterMinSize: number;
+}
+
+export type ReviewerDiscountReason = "shared_owner" | "no_history" | "funding_cluster";
+
+export interface ReviewerDiscount {
+  reason: ReviewerDiscountReason;
+  factor: number;
+  /** Funding address for funding_cluster. */
+  fundedBy?: string;
+  /** Cluster size for funding_cluster. */
+  clusterSize?: number;
+}
+
+export interface ReviewerWeight {
+  address: string;
+  reviews: number;
+  weight: number;
+  discounts: ReviewerDiscount[];
+}
+
+/** Explanation stored with the score (score_components.reviewerWeighting). */
+export interface ReviewerWeighting {
+  reviewers: number;
+  /** Sum of reviewer weights. */
+  effectiveReviewers: number;
+  /** Sum of weight × reviews; replaces feedbackCount in the peer reputation formula. */
+  weightedCount: number;
+  /** Sum of weight × valueSum; replaces feedbackValue. */
+  weightedValue: number;
+  weights: ReviewerWeight[];
+}
+
+/** Reported weights and totals are rounded to keep the explanation readable. */
+function round(n: number): number {
+  return Math.round(n * 1e6) / 1e6;
+}
+
+/** Weigh an agent's reviewers. Output order follows address order. */
+export function weighReviewers(signals: readonly ReviewerSignal[], params: ReviewerWeightingParams): ReviewerWeighting {
+  const clusterSizes = new Map<string, number>();
+  for (const s of signals) {
+    if (s.fundedBy) clusterSizes.set(s.fundedBy, (clusterSizes.get(s.fundedBy) ?? 0) + 1);
+  }
+
+  let effectiveReviewers = 0;
+  let weightedCount = 0;
+  let weightedValue = 0;
+  const weights: ReviewerWeight[] = [...signals]
+    .sort((a, b) => (a.address < b.address ? -1 : a.address > b.address ? 1 : 0))
+    .map((s) => {
+      const discounts: ReviewerDiscount[] = [];
+      if (s.sharesOwner) {
+        discounts.push({ reason: "shared_owner", factor: params.sharedOwnerFactor });
+      }
+      if (s.txCount !== null && s.txCount < params.minTxCount) {
+        discounts.push({ reason: "no_history", factor: params.noHistoryFactor });
+      }
+      const clusterSize = s.fundedBy ? clusterSizes.get(s.fundedBy) ?? 0 : 0;
+      if (s.fundedBy && clusterSize >= params.clusterMinSize) {
+        discounts.push({ reason: "funding_cluster", factor: 1 / clusterSize, fundedBy: s.fundedBy, clusterSize });
+      }
+      const weight = discounts.reduce((w, d) => w * d.factor, 1);
+      effectiveReviewers += weight;
+      weightedCount += weight * s.reviews;
+      weightedValue += weight * s.valueSum;
+      return {
+        address: s.address,
+        reviews: s.reviews,
+        weight: round(weight),
+        discounts: discounts.map((d) => ({ ...d, factor: round(d.factor) })),
+      };
+    });
+
+  return {
+    reviewers: weights.length,
+    effectiveReviewers: round(effectiveReviewers),
+    weightedCount: round(weightedCount),
+    weightedValue: round(weightedValue),
+    weights,
+  };
+}
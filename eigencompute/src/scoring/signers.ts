@@ -0,0 +1,50 @@
+/**
+ * Registry of TEE signer addresses, shared by the scoring service and the app.
+ *
+ * The TEE wallet is derived from the KMS-injected MNEMONIC, so it only changes when the key
+ * is rotated. Each rotation closes the old entry's window (validUntil) and appends a new
+ * one; entries are never removed, so old attestations stay verifiable. An attestation is
+ * trusted when its signer is registered and its timestamp falls inside that signer's window.
+ */
+
+export type SignerEnvironment = "production" | "staging" | "development";
+
+export interface SignerRecord {
+  address: string;
+  label: string;
+  environment: SignerEnvironment;
+  /** Unix seconds, inclusive. */
+  validFrom: number;
+  /** Unix seconds, exclusive; null while the key is current. */
+  validUntil: number | null;
+  /** Scoring versions this signer has served. */
+  scoringVersions: string[];
+}
+
+/**
+ * Published signers. Add the production TEE address here when a KMS key is provisioned,
+ * and set validUntil on the previous entry when rotating.
+ */
+export const TEE_SIGNERS: readonly SignerRecord[] = [];
+
+export function findSigner(
+  address: string,
+  registry: readonly SignerRecord[] = TEE_SIGNERS
+): SignerRecord[] {
+  const a = address.toLowerCase();
+  return registry.filter((s) => s.address.toLowerCase() === a);
+}
+
+/** True when `timestamp` (unix seconds) falls in the record's validity window. */
+export function isSignerValidAt(record: SignerRecord, timestamp: number): boolean {
+  return timestamp >= record.validFrom && (record.validUntil == null || timestamp < record.validUntil);
+}
+
+/** The registry entry covering `address` at `timestamp`, or null. */
+export function signerRecordAt(
+  address: string,
+  timestamp: number,
+  registry: readonly SignerRecord[] = TEE_SIGNERS
+): SignerRecord | null {
+  return findSigner(address, registry).find((s) => isSignerValidAt(s, timestamp)) ?? null;
+}
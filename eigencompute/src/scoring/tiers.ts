@@ -0,0 +1,27 @@
+/**
+ * Tier ladder shared by the app and the TEE service. Each scoring version defines its own
+ * ladder (ScoringParams.tiers in versions.ts), so a tier is always read with the version
+ * that produced the score.
+ */
+
+import { DEFAULT_SCORING_VERSION, getScoringVersion, type TierDefinition } from "./versions";
+
+/** Ladder of the default scoring version, highest first. */
+export const TIERS: readonly TierDefinition[] = getScoringVersion(DEFAULT_SCORING_VERSION).params.tiers;
+
+/** A version's ladder, highest first. Throws UnknownScoringVersionError for unknown versions. */
+export function tierLadder(version: string = DEFAULT_SCORING_VERSION): readonly TierDefinition[] {
+  return getScoringVersion(version).params.tiers;
+}
+
+/** The first tier in the version's ladder whose minScore the score reaches. */
+export function assignTier(score: number, version: string = DEFAULT_SCORING_VERSION): string {
+  const ladder = tierLadder(version);
+  return (ladder.find((t) => score >= t.minScore) ?? ladder[ladder.length - 1]).tier;
+}
+
+/** Position in the version's ladder, 0 = highest; null for tiers the ladder does not define. */
+export function tierRank(tier: string, version: string = DEFAULT_SCORING_VERSION): number | null {
+  const i = tierLadder(version).findIndex((t) => t.tier === tier);
+  return i === -1 ? null : i;
+}
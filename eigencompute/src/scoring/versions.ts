@@ -0,0 +1,180 @@
+/**
+ * Registry of scoring algorithm versions.
+ *
+ * Every attestation carries the version that produced it, so a published version must
+ * never change: add a new entry instead. computeScore(input, version) looks parameters up
+ * here, which lets old attestations be recomputed and versions be compared side by side.
+ */
+
+import type { RecencyParams } from "./recency";
+import type { ReviewerWeightingParams } from "./reviewers";
+
+/** One rung of a tier ladder: the tier an agent gets from minScore up. */
+export interface TierDefinition {
+  tier: string;
+  minScore: number;
+}
+
+export interface ScoringParams {
+  peerReputation: {
+    /** Feedback value treated as a perfect average. */
+    valueScale: number;
+    /** Points for a perfect average value. */
+    avgPoints: number;
+    /** Count bonus per log2(count + 1), capped at countBonusMax. */
+    countBonusPerLog2: number;
+    countBonusMax: number;
+    /** Weigh reviews by reviewer (reviewers.ts) when the input carries reviewer signals. */
+    reviewerWeighting?: ReviewerWeightingParams;
+  };
+  taskCompletion: {
+    /** Points for a 100% completion rate. */
+    ratePoints: number;
+    /** Volume bonus per log2(completed + 1), capped at volumeBonusMax. */
+    volumeBonusPerLog2: number;
+    volumeBonusMax: number;
+    /** Points off the component per worker mandate with each failed outcome (floored at 0). */
+    outcomePenalties?: { disputed: number; refunded: number; rejected: number; cancelled: number };
+  };
+  economicActivity: {
+    /** Points per log10(eth * ethScale + 1), capped at max. */
+    perLog10: number;
+    ethScale: number;
+    max: number;
+  };
+  identityCompleteness: {
+    base: number;
+    metadata: number;
+    skills: number;
+    ownerVerified: number;
+  };
+  /** Decay reviews and completions by age and penalize inactivity (recency.ts). */
+  recency?: RecencyParams;
+  /** Tier ladder, highest first; the last rung must start at 0 (tiers.ts). */
+  tiers: readonly TierDefinition[];
+}
+
+export interface ScoringVersion {
+  version: string;
+  description: string;
+  params: ScoringParams;
+}
+
+export class UnknownScoringVersionError extends Error {
+  constructor(version: string) {
+    super(`Unknown scoring version: ${version}`);
+    this.name = "UnknownScoringVersionError";
+  }
+}
+
+/** The original AAA → Risk Watch ladder, used by every version so far. */
+const LADDER_V1: readonly TierDefinition[] = [
+  { tier: "AAA", minScore: 80 },
+  { tier: "AA", minScore: 65 },
+  { tier: "A", minScore: 50 },
+  { tier: "BB", minScore: 35 },
+  { tier: "B", minScore: 20 },
+  { tier: "Risk Watch", minScore: 0 },
+];
+
+const V1_0_0: ScoringVersion = {
+  version: "1.0.0",
+  description: "Original weights: peer reputation 40, task completion 30, economic activity 20, identity 10.",
+  params: {
+    peerReputation: { valueScale: 100, avgPoints: 25, countBonusPerLog2: 2.5, countBonusMax: 15 },
+    taskCompletion: { ratePoints: 20, volumeBonusPerLog2: 2.3, volumeBonusMax: 10 },
+    economicActivity: { perLog10: 5, ethScale: 100, max: 20 },
+    identityCompleteness: { base: 2, metadata: 3, skills: 3, ownerVerified: 2 },
+    tiers: LADDER_V1,
+  },
+};
+
+const V1_1_0: ScoringVersion = {
+  version: "1.1.0",
+  description: "Shifts 5 points from peer reputation to task completion now that escrow mandates are indexed.",
+  params: {
+    peerReputation: { valueScale: 100, avgPoints: 22, countBonusPerLog2: 2.2, countBonusMax: 13 },
+    taskCompletion: { ratePoints: 23, volumeBonusPerLog2: 2.7, volumeBonusMax: 12 },
+    economicActivity: { perLog10: 5, ethScale: 100, max: 20 },
+    identityCompleteness: { base: 2, metadata: 3, skills: 3, ownerVerified: 2 },
+    tiers: LADDER_V1,
+  },
+};
+
+const V1_2_0: ScoringVersion = {
+  version: "1.2.0",
+  description:
+    "v1.0.0 weights with reviewer weighting: reviewers sharing the agent's owner count 0, " +
+    "reviewers with under 3 transactions 0.25, and 3+ reviewers funded by one address share one weight.",
+  params: {
+    peerReputation: {
+      ...V1_0_0.params.peerReputation,
+      reviewerWeighting: { sharedOwnerFactor: 0, noHistoryFactor: 0.25, minTxCount: 3, clusterMinSize: 3 },
+    },
+    taskCompletion: V1_0_0.params.taskCompletion,
+    economicActivity: V1_0_0.params.economicActivity,
+    identityCompleteness: V1_0_0.params.identityCompleteness,
+    tiers: V1_0_0.params.tiers,
+  },
+};
+
+const V1_3_0: ScoringVersion = {
+  version: "1.3.0",
+  description:
+    "v1.2.0 with recency: reviews halve in weight every 180 days and completions every 365 days; " +
+    "agents idle for over 30 days lose 2 points per 30 idle days, up to 10.",
+  params: {
+    ...V1_2_0.params,
+    recency: {
+      reviewHalfLifeDays: 180,
+      completionHalfLifeDays: 365,
+      undatedReviewFactor: 0.5,
+      inactivityGraceDays: 30,
+      inactivityPenaltyPer30Days: 2,
+      inactivityPenaltyMax: 10,
+    },
+  },
+};
+
+const V1_4_0: ScoringVersion = {
+  version: "1.4.0",
+  description:
+    "v1.3.0 with task penalties: each worker mandate that is disputed costs 4 points, refunded 3, " +
+    "rejected 2 and cancelled 1, off task completion.",
+  params: {
+    ...V1_3_0.params,
+    taskCompletion: {
+      ...V1_3_0.params.taskCompletion,
+      outcomePenalties: { disputed: 4, refunded: 3, rejected: 2, cancelled: 1 },
+    },
+  },
+};
+
+export const SCORING_VERSIONS: Readonly<Record<string, ScoringVersion>> = {
+  [V1_0_0.version]: V1_0_0,
+  [V1_1_0.version]: V1_1_0,
+  [V1_2_0.version]: V1_2_0,
+  [V1_3_0.version]: V1_3_0,
+  [V1_4_0.version]: V1_4_0,
+};
+
+/** Version used when a caller does not ask for one. */
+export const DEFAULT_SCORING_VERSION = V1_4_0.version;
+
+export function getScoringVersion(version: string = DEFAULT_SCORING_VERSION): ScoringVersion {
+  const v = SCORING_VERSIONS[version];
+  if (!v) throw new UnknownScoringVersionError(version);
+  return v;
+}
+
+/** Maximum points per component for a version (e.g. for "12/40" style displays). */
+export function componentMaxima(version: string = DEFAULT_SCORING_VERSION) {
+  const p = getScoringVersion(version).params;
+  const id = p.identityCompleteness;
+  return {
+    peerReputation: p.peerReputation.avgPoints + p.peerReputation.countBonusMax,
+    taskCompletion: p.taskCompletion.ratePoints + p.taskCompletion.volumeBonusMax,
+    economicActivity: p.economicActivity.max,
+    identityCompleteness: id.base + id.metadata + id.skills + id.ownerVerified,
+  };
+}
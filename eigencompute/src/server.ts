@@ -11,8 +11,43 @@
  */
 
 import express from "express";
+import { resolve } from "path";
 import { ethers } from "ethers";
-import { computeScore, fetchScoreInput, type ScoreOutput } from "./scoring";
+import {
+  computeScore,
+  fetchScoreInput,
+  parseBlockTag,
+  resolveSourceBlock,
+  parseScoreInput,
+  ScoreInputError,
+  scoreOutputToJson,
+  signScoreAttestation,
+  signScoreBatch,
+  scoreLeaf,
+  buildMerkleTree,
+  getMerkleProof,
+  buildLeaderboard,
+  signerRecordAt,
+  TEE_SIGNERS,
+  buildLeaderboardTree,
+  signLeaderboardSnapshot,
+  recoverScoreAttestationSigner,
+  hashScoreInput,
+  encodeDecay,
+  compareClaimToInput,
+  claimFromLegacyMessage,
+  claimFromTypedAttestation,
+  UnknownScoringVersionError,
+  DEFAULT_ATTESTATION_CHAIN_ID,
+  SCORING_VERSIONS,
+  DEFAULT_SCORING_VERSION,
+  type ScoreInput,
+  type ScoreOutput,
+  type ScoreOutputJson,
+  type SourceBlock,
+  type TypedScoreAttestation,
+} from "./scoring";
+import { buildAttestationReport, computeCodeHash, createAttestationProvider } from "./platformAttestation";
 
 // BigInt → string so JSON.stringify works with on-chain values
 (BigInt.prototype as unknown as { toJSON: () => string }).toJSON = function () {
@@ -22,9 +57,18 @@ import { computeScore, fetchScoreInput, type ScoreOutput } from "./scoring";
 const app = express();
 const PORT = parseInt(process.env.APP_PORT || "3001", 10);
 const RPC_URL = process.env.BASE_RPC_URL || "https://mainnet.base.org";
+// Max inputs per POST /score/batch
+const MAX_BATCH_SIZE = parseInt(process.env.MAX_BATCH_SIZE || "1000", 10);
+// Max inputs per POST /snapshot (one leaderboard covers every agent)
+const MAX_SNAPSHOT_SIZE = parseInt(process.env.MAX_SNAPSHOT_SIZE || "20000", 10);
+// Chain id in the EIP-712 domain and ScoreAttestation struct
+const ATTESTATION_CHAIN_ID = parseInt(process.env.ATTESTATION_CHAIN_ID || String(DEFAULT_ATTESTATION_CHAIN_ID), 10);
 
 // TEE wallet — mnemonic is injected by EigenCompute KMS at runtime
 const MNEMONIC = process.env.MNEMONIC || "";
+// Without a mnemonic every restart gets a new random wallet: attestations from it are
+// marked non-production and its address is never in the signer registry.
+const DEV_SIGNER = !MNEMONIC;
 
 let signer: ethers.Signer & { address: string } | null = null;
 let provider: ethers.JsonRpcProvider;
@@ -36,53 +80,138 @@ function getSigner(): ethers.Signer & { address: string } {
       signer = hd;
     } else {
       const rnd = ethers.Wallet.createRandom().connect(provider);
-      console.warn("[TEE] No MNEMONIC — using random dev wallet:", rnd.address);
+      console.warn("[TEE] No MNEMONIC — using random dev wallet (non-production attestations):", rnd.address);
       signer = rnd;
     }
   }
   return signer!;
 }
 
+/* ---------- Platform attestation ---------- */
+
+const attestationProvider = createAttestationProvider();
+// Container image digest, set by the deploy pipeline
+const IMAGE_DIGEST = process.env.IMAGE_DIGEST || null;
+
+let codeHash: string | null = null;
+
+/** Hash of the src/ tree shipped in the image (dist/ sits next to it). */
+function getCodeHash(): string {
+  if (!codeHash) {
+    try {
+      codeHash = computeCodeHash(resolve(__dirname, "../src"));
+    } catch (e) {
+      console.warn("[TEE] Could not hash src/:", e instanceof Error ? e.message : e);
+      codeHash = "unavailable";
+    }
+  }
+  return codeHash;
+}
+
+/** Registry view of the running signer, as reported by /health. */
+function signerInfo() {
+  const wallet = getSigner();
+  const record = signerRecordAt(wallet.address, Math.floor(Date.now() / 1000));
+  return {
+    address: wallet.address,
+    mode: DEV_SIGNER ? "development" : "kms",
+    production: !DEV_SIGNER && record?.environment === "production",
+    registered: record,
+  };
+}
+
 /* ---------- Attestation signing ---------- */
 
 interface SignedAttestation {
-  score: ScoreOutput;
+  score: ScoreOutputJson;
   attestation: {
     signer: string;
     signature: string;
     message: string;
     timestamp: number;
+    /** False for dev random-wallet signatures; never trust these. */
+    production: boolean;
   };
+  /** EIP-712 ScoreAttestation signature by the same wallet. */
+  eip712: TypedScoreAttestation;
+  /** Block the on-chain inputs were read at; null for unpinned pre-fetched input. */
+  block: SourceBlock | null;
 }
 
-async function signScore(score: ScoreOutput): Promise<SignedAttestation> {
+async function signScore(score: ScoreOutput, block: SourceBlock | null = null): Promise<SignedAttestation> {
   const wallet = getSigner();
 
-  // Create a deterministic message from the score
+  // Create a deterministic message from the score, bound to the exact input via its hash
   const message = JSON.stringify({
     agentId: score.agentId,
     score: score.score,
     components: score.components,
+    inputHash: hashScoreInput(score.input),
     timestamp: score.timestamp,
     version: score.version,
+    ...(score.recency ? { decay: encodeDecay(score.recency) } : {}),
+    ...(block ? { block } : {}),
+    // Signed, so a dev attestation cannot be passed off as production
+    ...(DEV_SIGNER ? { environment: "development" } : {}),
   });
 
   const signature = await wallet.signMessage(message);
+  const eip712 = await signScoreAttestation(wallet, score, ATTESTATION_CHAIN_ID, block);
 
   return {
-    score,
+    score: scoreOutputToJson(score),
     attestation: {
       signer: wallet.address,
       signature,
       message,
       timestamp: Math.floor(Date.now() / 1000),
+      production: signerInfo().production,
     },
+    eip712,
+    block,
   };
 }
 
 /* ---------- Routes ---------- */
 
-app.use(express.json());
+/** Parse a list of inputs with unique agentIds; errors name the offending index. */
+function parseInputList(rawInputs: unknown[]): ScoreInput[] {
+  const seen = new Set<number>();
+  return rawInputs.map((raw, i) => {
+    try {
+      const input = parseScoreInput(raw);
+      if (seen.has(input.agentId)) throw new ScoreInputError(`duplicate agentId ${input.agentId}`);
+      seen.add(input.agentId);
+      return input;
+    } catch (e) {
+      if (e instanceof ScoreInputError) throw new ScoreInputError(`inputs[${i}]: ${e.message}`);
+      throw e;
+    }
+  });
+}
+
+/**
+ * Check a `{ number, hash }` block claimed by a caller against this node's chain.
+ * Returns an error message, or null when the block is canonical.
+ */
+async function checkClaimedBlock(raw: unknown): Promise<string | null> {
+  const b = raw as Partial<SourceBlock> | null;
+  if (!b || typeof b !== "object" || !Number.isSafeInteger(b.number) || typeof b.hash !== "string") {
+    return "block must be { number, hash }";
+  }
+  const onChain = await provider.getBlock(b.number!);
+  if (!onChain?.hash) return `Block ${b.number} not found`;
+  return onChain.hash.toLowerCase() === b.hash.toLowerCase() ? null : `Block ${b.number} hash does not match chain`;
+}
+
+/** Resolve the requested scoring version; null when it is not in the registry. */
+function requestedVersion(raw: unknown): string | null {
+  const version = typeof raw === "string" && raw.trim() ? raw.trim() : DEFAULT_SCORING_VERSION;
+  return SCORING_VERSIONS[version] ? version : null;
+}
+
+// Batches and leaderboard snapshots exceed the 100kb default
+app.use(express.json({ limit: "8mb" }));
 
 // Health check
 app.get("/health", (_req, res) => {
@@ -92,22 +221,66 @@ app.get("/health", (_req, res) => {
     service: "moltscore-verifiable-scoring",
     version: "1.0.0",
     teeWallet: wallet.address,
+    signer: signerInfo(),
+    signers: TEE_SIGNERS,
+    attestationProvider: attestationProvider.name,
+    measurement: { imageDigest: IMAGE_DIGEST, codeHash: getCodeHash() },
+    scoringVersions: Object.keys(SCORING_VERSIONS),
+    defaultScoringVersion: DEFAULT_SCORING_VERSION,
+    attestationChainId: ATTESTATION_CHAIN_ID,
     network: "base",
     rpc: RPC_URL.replace(/\/[^/]*$/, "/***"),
   });
 });
 
-// Score a single agent
+// Platform attestation quote + measurement. ?nonce= is bound into reportData together with
+// the signer address, code hash and image digest so a verifier can request a fresh quote.
+app.get("/attestation", async (req, res) => {
+  const nonce = typeof req.query.nonce === "string" && req.query.nonce ? req.query.nonce : ethers.hexlify(ethers.randomBytes(16));
+  if (nonce.length > 128) {
+    return res.status(400).json({ error: "nonce must be at most 128 characters" });
+  }
+
+  try {
+    const info = signerInfo();
+    const report = await buildAttestationReport({
+      provider: attestationProvider,
+      signer: info.address,
+      nonce,
+      codeHash: getCodeHash(),
+      imageDigest: IMAGE_DIGEST,
+      productionSigner: info.production,
+    });
+    return res.json({ success: true, ...report });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    console.error("[Attestation] failed:", message);
+    return res.status(502).json({ error: message });
+  }
+});
+
+// Score a single agent from on-chain data. Every read is pinned to ?blockTag= (number,
+// latest, safe or finalized; default latest) and the resolved block is signed.
 app.get("/score/:agentId", async (req, res) => {
   const agentId = parseInt(req.params.agentId, 10);
   if (isNaN(agentId) || agentId < 0) {
     return res.status(400).json({ error: "Invalid agentId" });
   }
+  const version = requestedVersion(req.query.version);
+  if (!version) {
+    return res.status(400).json({ error: "Unknown scoring version", versions: Object.keys(SCORING_VERSIONS) });
+  }
+
+  const blockTag = req.query.blockTag == null ? "latest" : parseBlockTag(req.query.blockTag);
+  if (blockTag == null) {
+    return res.status(400).json({ error: "Invalid blockTag" });
+  }
 
   try {
-    const input = await fetchScoreInput(provider, agentId);
-    const score = computeScore(input);
-    const attestation = await signScore(score);
+    const block = await resolveSourceBlock(provider, blockTag);
+    const input = await fetchScoreInput(provider, agentId, block.number);
+    const score = computeScore(input, version);
+    const attestation = await signScore(score, block);
 
     return res.json({
       success: true,
@@ -120,29 +293,32 @@ app.get("/score/:agentId", async (req, res) => {
   }
 });
 
-// Score with pre-fetched input (for batch scoring from MoltScore sync)
+// Score with pre-fetched input (for batch scoring from MoltScore sync). An optional
+// `block: { number, hash }` naming where the on-chain part was read is checked against the
+// chain and signed.
 app.post("/score", async (req, res) => {
-  const { agentId, feedbackCount, feedbackValue, completedMandates, totalMandates, totalEscrowWei, hasMetadata, hasSkills, ownerVerified } = req.body;
-
-  if (typeof agentId !== "number") {
-    return res.status(400).json({ error: "agentId required" });
+  let input: ScoreInput;
+  try {
+    input = parseScoreInput(req.body);
+  } catch (e) {
+    if (e instanceof ScoreInputError) return res.status(400).json({ error: e.message });
+    throw e;
+  }
+  const version = requestedVersion(req.body.version);
+  if (!version) {
+    return res.status(400).json({ error: "Unknown scoring version", versions: Object.keys(SCORING_VERSIONS) });
   }
 
   try {
-    const input = {
-      agentId,
-      feedbackCount: feedbackCount ?? 0,
-      feedbackValue: feedbackValue ?? 0,
-      completedMandates: completedMandates ?? 0,
-      totalMandates: totalMandates ?? 0,
-      totalEscrowWei: BigInt(totalEscrowWei ?? "0"),
-      hasMetadata: hasMetadata ?? false,
-      hasSkills: hasSkills ?? false,
-      ownerVerified: ownerVerified ?? false,
-    };
-
-    const score = computeScore(input);
-    const attestation = await signScore(score);
+    if (req.body.block != null) {
+      const problem = await checkClaimedBlock(req.body.block);
+      if (problem) return res.status(400).json({ error: problem });
+    }
+    const block: SourceBlock | null = req.body.block
+      ? { number: req.body.block.number, hash: req.body.block.hash.toLowerCase() }
+      : null;
+    const score = computeScore(input, version);
+    const attestation = await signScore(score, block);
 
     return res.json({
       success: true,
@@ -154,26 +330,185 @@ app.post("/score", async (req, res) => {
   }
 });
 
-// Verify a signature (for anyone to independently verify)
-app.post("/verify", (req, res) => {
-  const { message, signature } = req.body;
-  if (!message || !signature) {
-    return res.status(400).json({ error: "message and signature required" });
+// Score many pre-fetched inputs at once. Each agent gets its usual signed result plus a
+// Merkle leaf and inclusion proof; one EIP-712 ScoreBatch signature covers the root.
+app.post("/score/batch", async (req, res) => {
+  const rawInputs = req.body?.inputs;
+  if (!Array.isArray(rawInputs) || rawInputs.length === 0) {
+    return res.status(400).json({ error: "inputs must be a non-empty array" });
+  }
+  if (rawInputs.length > MAX_BATCH_SIZE) {
+    return res.status(400).json({ error: `At most ${MAX_BATCH_SIZE} inputs per batch` });
+  }
+  const version = requestedVersion(req.body.version);
+  if (!version) {
+    return res.status(400).json({ error: "Unknown scoring version", versions: Object.keys(SCORING_VERSIONS) });
   }
 
+  let inputs: ScoreInput[];
   try {
-    const recovered = ethers.verifyMessage(message, signature);
+    inputs = parseInputList(rawInputs);
+  } catch (e) {
+    if (e instanceof ScoreInputError) return res.status(400).json({ error: e.message });
+    throw e;
+  }
+
+  try {
+    const scores = inputs.map((input) => computeScore(input, version));
+    const leaves = scores.map(scoreLeaf);
+    const tree = buildMerkleTree(leaves);
     const wallet = getSigner();
-    const valid = recovered.toLowerCase() === wallet.address.toLowerCase();
 
-    return res.json({
-      valid,
-      recoveredAddress: recovered,
-      expectedAddress: wallet.address,
+    const batch = await signScoreBatch(wallet, {
+      root: tree.root,
+      count: scores.length,
+      version,
+      timestamp: Math.floor(Date.now() / 1000),
+      chainId: ATTESTATION_CHAIN_ID,
     });
+
+    const results = [];
+    for (let i = 0; i < scores.length; i++) {
+      const signed = await signScore(scores[i]);
+      results.push({ ...signed, leaf: leaves[i], proof: getMerkleProof(tree, i) });
+    }
+
+    console.log(`[Batch] Scored ${scores.length} agents, root ${tree.root}`);
+    return res.json({ success: true, production: signerInfo().production, batch, results });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    console.error("[Batch] failed:", message);
+    return res.status(500).json({ error: message });
+  }
+});
+
+// Leaderboard snapshot: score and rank every input, build the Merkle tree over
+// (agentId, rank, score, tier, version) leaves and sign the root (EIP-712 LeaderboardSnapshot).
+app.post("/snapshot", async (req, res) => {
+  const rawInputs = req.body?.inputs;
+  if (!Array.isArray(rawInputs) || rawInputs.length === 0) {
+    return res.status(400).json({ error: "inputs must be a non-empty array" });
+  }
+  if (rawInputs.length > MAX_SNAPSHOT_SIZE) {
+    return res.status(400).json({ error: `At most ${MAX_SNAPSHOT_SIZE} inputs per snapshot` });
+  }
+  const version = requestedVersion(req.body.version);
+  if (!version) {
+    return res.status(400).json({ error: "Unknown scoring version", versions: Object.keys(SCORING_VERSIONS) });
+  }
+
+  let inputs: ScoreInput[];
+  try {
+    inputs = parseInputList(rawInputs);
+  } catch (e) {
+    if (e instanceof ScoreInputError) return res.status(400).json({ error: e.message });
+    throw e;
+  }
+
+  try {
+    const entries = buildLeaderboard(inputs, version);
+    const tree = buildLeaderboardTree(entries);
+    const snapshot = await signLeaderboardSnapshot(getSigner(), {
+      root: tree.root,
+      count: entries.length,
+      version,
+      timestamp: Math.floor(Date.now() / 1000),
+      chainId: ATTESTATION_CHAIN_ID,
+    });
+
+    console.log(`[Snapshot] ${entries.length} agents, root ${tree.root}`);
+    return res.json({ success: true, production: signerInfo().production, snapshot, entries });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    console.error("[Snapshot] failed:", message);
+    return res.status(500).json({ error: message });
+  }
+});
+
+// Verify a signature (for anyone to independently verify).
+// Legacy: { message, signature }. EIP-712: { eip712: { message, signature } }.
+// Adding `input` (ScoreInputJson) recomputes the score and checks the signed inputHash,
+// score and components against it, so the check covers input → score → signature.
+app.post("/verify", (req, res) => {
+  const { message, signature, eip712, input: rawInput } = req.body;
+  const typed = eip712 && typeof eip712 === "object" ? eip712 : null;
+  if (typed ? !typed.message || !typed.signature : !message || !signature) {
+    return res.status(400).json({ error: "message and signature required" });
+  }
+
+  let input: ScoreInput | null = null;
+  if (rawInput !== undefined) {
+    try {
+      input = parseScoreInput(rawInput);
+    } catch (e) {
+      if (e instanceof ScoreInputError) return res.status(400).json({ error: `input: ${e.message}` });
+      throw e;
+    }
+  }
+
+  let recovered: string;
+  try {
+    recovered = typed
+      ? recoverScoreAttestationSigner(typed.message, typed.signature)
+      : ethers.verifyMessage(message, signature);
   } catch {
     return res.json({ valid: false, error: "Invalid signature" });
   }
+  const wallet = getSigner();
+  // The signature is valid when the signer was registered at the signed score timestamp, so
+  // attestations from before a key rotation still verify and a retired key cannot sign new
+  // ones, or when it is this service's own KMS wallet, registered or not, so an empty or
+  // lagging registry does not reject the running key. Dev random-wallet signatures are never
+  // valid; they are reported as non-production.
+  let signedAt = typed ? Number(typed.message.timestamp) : NaN;
+  let devSigned = DEV_SIGNER && recovered.toLowerCase() === wallet.address.toLowerCase();
+  if (!typed) {
+    try {
+      const signed = JSON.parse(message) as { timestamp?: unknown; environment?: unknown };
+      signedAt = Number(signed.timestamp);
+      if (signed.environment === "development") devSigned = true;
+    } catch {
+      // Unreadable message: no signing time, so no registry entry can cover it.
+    }
+  }
+  const registered = Number.isFinite(signedAt) ? signerRecordAt(recovered, signedAt) : null;
+  const runningSigner = !DEV_SIGNER && recovered.toLowerCase() === wallet.address.toLowerCase();
+  const signatureValid = !devSigned && (registered !== null || runningSigner);
+  const production = signatureValid && registered?.environment === "production";
+  const signerReport = {
+    recoveredAddress: recovered,
+    expectedAddress: wallet.address,
+    registeredSigner: registered,
+    runningSigner,
+    production,
+    devSigned,
+  };
+
+  if (!input) {
+    return res.json({ valid: signatureValid, ...signerReport });
+  }
+
+  let result: ReturnType<typeof compareClaimToInput>;
+  try {
+    const claim = typed ? claimFromTypedAttestation(typed.message) : claimFromLegacyMessage(message);
+    result = compareClaimToInput(claim, input);
+  } catch (e) {
+    return res.json({
+      valid: false,
+      ...signerReport,
+      error: e instanceof UnknownScoringVersionError ? e.message : "Malformed signed message",
+    });
+  }
+  const { mismatches, recomputed } = result;
+
+  return res.json({
+    valid: signatureValid && mismatches.length === 0,
+    signatureValid,
+    ...signerReport,
+    inputHash: hashScoreInput(input),
+    recomputed: { score: recomputed.score, components: recomputed.components, version: recomputed.version },
+    mismatches,
+  });
 });
 
 /* ---------- Start ---------- */
@@ -193,4 +528,7 @@ app.listen(PORT, "0.0.0.0", () => {
 ║  RPC:     ${RPC_URL.slice(0, 38).padEnd(39)}║
 ╚══════════════════════════════════════════════════╝
   `);
+  if (!DEV_SIGNER && !signerInfo().registered) {
+    console.warn("[TEE] Signer", wallet.address, "is not in the signer registry (src/scoring/signers.ts)");
+  }
 });
@@ -0,0 +1,266 @@
+/**
+ * Verify score attestations returned by the EigenCompute TEE (or stored in the attestation
+ * log). Recovers the signer from the legacy personal_sign message and the EIP-712
+ * ScoreAttestation and checks both against the score and input they were delivered with,
+ * and checks Merkle inclusion of batch results under a signed batch root.
+ * Pure ethers code, so it runs in the browser as well as on the server.
+ */
+
+import { ethers } from "ethers";
+import {
+  claimFromLegacyMessage,
+  computeScore,
+  encodeDecay,
+  parseScoreInput,
+  recoverScoreAttestationSigner,
+  hashScoreInput,
+  recoverScoreBatchSigner,
+  scoreLeaf,
+  signerRecordAt,
+  verifyMerkleProof,
+  type ScoreOutputJson,
+  type SignerRecord,
+  type SourceBlock,
+  type TypedScoreAttestation,
+  type TypedScoreBatch,
+} from "@moltscore/scoring";
+
+/**
+ * The decay string `score` was signed with. Stored attestations keep only the score,
+ * components and input, not the recency explanation, so it is recomputed from the input
+ * and version when absent (recency ages are measured from input.recency.asOf, never the clock).
+ */
+export function expectedDecay(score: ScoreOutputJson): string {
+  if (score.recency) return encodeDecay(score.recency);
+  try {
+    return encodeDecay(computeScore(parseScoreInput(score.input), score.version).recency);
+  } catch {
+    return "";
+  }
+}
+
+export interface TypedAttestationCheck {
+  /** Signature recovers to `signer` and the struct matches the score. */
+  valid: boolean;
+  recoveredAddress: string | null;
+  /** Fields where the signed struct disagrees with the delivered score. */
+  mismatches: string[];
+  error?: string;
+}
+
+/**
+ * Recover the EIP-712 signer and compare the signed struct to `score`. When `expectedSigner`
+ * is given the recovered address must equal it; otherwise it must equal `typed.signer`.
+ */
+export function verifyTypedAttestation(
+  typed: TypedScoreAttestation,
+  score?: ScoreOutputJson,
+  expectedSigner?: string
+): TypedAttestationCheck {
+  let recoveredAddress: string;
+  try {
+    recoveredAddress = recoverScoreAttestationSigner(typed.message, typed.signature);
+  } catch (e) {
+    return {
+      valid: false,
+      recoveredAddress: null,
+      mismatches: [],
+      error: e instanceof Error ? e.message : "Invalid signature",
+    };
+  }
+
+  const mismatches: string[] = [];
+  if (score) {
+    const m = typed.message;
+    if (Number(m.agentId) !== score.agentId) mismatches.push("agentId");
+    if (Number(m.score) !== score.score) mismatches.push("score");
+    if (Number(m.peerReputation) !== score.components.peerReputation) mismatches.push("peerReputation");
+    if (Number(m.taskCompletion) !== score.components.taskCompletion) mismatches.push("taskCompletion");
+    if (Number(m.economicActivity) !== score.components.economicActivity) mismatches.push("economicActivity");
+    if (Number(m.identityCompleteness) !== score.components.identityCompleteness) {
+      mismatches.push("identityCompleteness");
+    }
+    if (m.version !== score.version) mismatches.push("version");
+    if (Number(m.timestamp) !== score.timestamp) mismatches.push("timestamp");
+    if (m.decay !== expectedDecay(score)) mismatches.push("decay");
+    try {
+      if (m.inputHash !== hashScoreInput(parseScoreInput(score.input))) mismatches.push("inputHash");
+    } catch {
+      mismatches.push("inputHash");
+    }
+  }
+
+  const expected = (expectedSigner ?? typed.signer).toLowerCase();
+  return {
+    valid: recoveredAddress.toLowerCase() === expected && mismatches.length === 0,
+    recoveredAddress,
+    mismatches,
+  };
+}
+
+/** What the TEE returns (and the attestation log stores) for one score. */
+export interface AttestationBundle {
+  score: ScoreOutputJson;
+  attestation: { signer: string; signature: string; message: string; timestamp: number; production?: boolean };
+  eip712?: TypedScoreAttestation | null;
+  /** Block the on-chain inputs were pinned to; absent on older attestations. */
+  block?: SourceBlock | null;
+}
+
+export type AttestationStatus = "valid" | "unknown_signer" | "tampered";
+
+export interface AttestationBundleCheck {
+  status: AttestationStatus;
+  recoveredAddress: string | null;
+  /** Why the bundle is tampered: failed signature checks or fields that disagree. */
+  problems: string[];
+  /** Signed message carries an inputHash matching score.input. */
+  inputBound: boolean;
+  eip712Checked: boolean;
+  /** Block both signatures commit to; null when the input was not pinned. */
+  sourceBlock: SourceBlock | null;
+  /** Registry entry covering the signer at signing time. */
+  signerRecord: SignerRecord | null;
+  /** Signed by a production signer and not flagged as a dev-wallet attestation. */
+  production: boolean;
+}
+
+function hashOf(input: ScoreOutputJson["input"]): string | null {
+  try {
+    return hashScoreInput(parseScoreInput(input));
+  } catch {
+    return null;
+  }
+}
+
+function sameBlock(a: SourceBlock | null, b: SourceBlock | null): boolean {
+  if (!a || !b) return !a && !b;
+  return Number(a.number) === Number(b.number) && a.hash.toLowerCase() === b.hash.toLowerCase();
+}
+
+/**
+ * Full client-side check of a bundle against the signer registry:
+ * - tampered: a signature does not recover to the claimed signer, or the signed fields
+ *   disagree with the displayed score / input
+ * - unknown_signer: signatures are intact but the signer is not registered, was not valid
+ *   at the signed timestamp, or the signed message carries no timestamp (the envelope's
+ *   `attestation.timestamp` is unsigned and never used for the window)
+ * - valid: intact and signed by a registered TEE signer inside its validity window, or by
+ *   `opts.runningSigner` (the TEE's current KMS wallet, for server-side callers) and not
+ *   flagged as a dev-wallet attestation
+ */
+export function checkAttestationBundle(
+  bundle: AttestationBundle,
+  signers: readonly SignerRecord[],
+  opts: { runningSigner?: string | null } = {}
+): AttestationBundleCheck {
+  const problems: string[] = [];
+  const { score, attestation } = bundle;
+
+  let recoveredAddress: string | null = null;
+  try {
+    recoveredAddress = ethers.verifyMessage(attestation.message, attestation.signature);
+    if (recoveredAddress.toLowerCase() !== attestation.signer.toLowerCase()) {
+      problems.push("signature does not match signer");
+    }
+  } catch {
+    problems.push("invalid signature");
+  }
+
+  const sourceBlock = bundle.block ?? null;
+  let inputBound = false;
+  let signedAt: number | null = null;
+  let devSigned = attestation.production === false;
+  try {
+    const claim = claimFromLegacyMessage(attestation.message);
+    const signed = JSON.parse(attestation.message) as { environment?: string; block?: SourceBlock };
+    if (signed.environment === "development") devSigned = true;
+    if (!sameBlock(signed.block ?? null, sourceBlock)) problems.push("block");
+    if (claim.agentId !== score.agentId) problems.push("agentId");
+    if (claim.score !== score.score) problems.push("score");
+    if (claim.version !== score.version) problems.push("version");
+    if (claim.timestamp !== null && claim.timestamp !== score.timestamp) problems.push("timestamp");
+    signedAt = claim.timestamp;
+    if (claim.decay !== null && claim.decay !== expectedDecay(score)) problems.push("decay");
+    for (const key of Object.keys(score.components) as (keyof ScoreOutputJson["components"])[]) {
+      if (claim.components?.[key] !== score.components[key]) problems.push(key);
+    }
+    // Messages signed before input binding have no inputHash; they are not tampered, just unbound.
+    if (claim.inputHash != null) {
+      if (claim.inputHash.toLowerCase() === hashOf(score.input)) inputBound = true;
+      else problems.push("inputHash");
+    }
+  } catch {
+    problems.push("unreadable signed message");
+  }
+
+  let eip712Checked = false;
+  if (bundle.eip712) {
+    eip712Checked = true;
+    const typed = verifyTypedAttestation(bundle.eip712, score, attestation.signer);
+    if (typed.error) problems.push(`eip712: ${typed.error}`);
+    else if (!typed.valid) {
+      problems.push(...(typed.mismatches.length > 0 ? typed.mismatches.map((m) => `eip712 ${m}`) : ["eip712 signer"]));
+    }
+    const m = bundle.eip712.message;
+    const typedBlock = Number(m.blockNumber ?? 0) > 0 ? { number: Number(m.blockNumber), hash: m.blockHash } : null;
+    if (!sameBlock(typedBlock, sourceBlock)) problems.push("eip712 block");
+  }
+
+  const signerRecord =
+    recoveredAddress && signedAt !== null ? signerRecordAt(recoveredAddress, signedAt, signers) : null;
+  const running =
+    !devSigned && recoveredAddress != null && recoveredAddress.toLowerCase() === opts.runningSigner?.toLowerCase();
+  const status: AttestationStatus =
+    problems.length > 0 ? "tampered" : signerRecord || running ? "valid" : "unknown_signer";
+
+  return {
+    status,
+    recoveredAddress,
+    problems,
+    inputBound,
+    eip712Checked,
+    sourceBlock,
+    signerRecord,
+    production: !devSigned && signerRecord?.environment === "production",
+  };
+}
+
+/** One agent's entry in a TEE batch response. */
+export interface BatchResult extends AttestationBundle {
+  leaf: string;
+  proof: string[];
+}
+
+/**
+ * Check that a batch result is included under a signed batch root: the leaf is rebuilt
+ * from the score itself (not trusted from the response), the proof must lead to the root
+ * and the root signature must recover to `expectedSigner` (default: batch.signer).
+ */
+export function verifyBatchInclusion(
+  result: BatchResult,
+  batch: TypedScoreBatch,
+  expectedSigner?: string
+): { valid: boolean; problems: string[] } {
+  const problems: string[] = [];
+
+  try {
+    const recovered = recoverScoreBatchSigner(batch.message, batch.signature);
+    if (recovered.toLowerCase() !== (expectedSigner ?? batch.signer).toLowerCase()) {
+      problems.push("batch signer");
+    }
+  } catch {
+    problems.push("batch signature");
+  }
+
+  let leaf: string | null = null;
+  try {
+    leaf = scoreLeaf({ ...result.score, input: parseScoreInput(result.score.input) });
+  } catch {
+    problems.push("unreadable score");
+  }
+  if (leaf && leaf !== result.leaf) problems.push("leaf");
+  if (leaf && !verifyMerkleProof(leaf, result.proof, batch.message.root)) problems.push("proof");
+
+  return { valid: problems.length === 0, problems };
+}
@@ -22,6 +22,11 @@ async function main() {
     "last_active_at TIMESTAMPTZ",
     "rep_summary_value INTEGER DEFAULT 0",
     "rep_count INTEGER DEFAULT 0",
+    "mandates_refunded INTEGER NOT NULL DEFAULT 0",
+    "mandates_rejected INTEGER NOT NULL DEFAULT 0",
+    "score_low INTEGER",
+    "score_high INTEGER",
+    "score_provisional BOOLEAN",
   ];
 
   for (const col of cols) {
@@ -0,0 +1,23 @@
+/**
+ * Batch-attest every agent's score on the EigenCompute TEE (POST /score/batch) and store
+ * the signed results with their Merkle inclusion proofs.
+ *
+ * Run: npm run attest:batch
+ * Requires EIGENCOMPUTE_URL. TEE_BATCH_SIZE sets inputs per request (default 500).
+ */
+
+import "dotenv/config";
+import { pool } from "../lib/db";
+import { attestAllScores } from "../services/teeBatchScoring";
+
+async function main() {
+  console.log("[attestBatch] Starting...");
+  const result = await attestAllScores();
+  console.log("[attestBatch] Done:", result);
+  await pool.end();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,23 @@
+/**
+ * Index MandateEscrowV5 logs into the mandates table and refresh per-agent escrow metrics.
+ * Resumes from the last block stored in scan_state.
+ *
+ * Run: npm run sync:escrow
+ * Set ESCROW_START_BLOCK (or MANDATE_START_BLOCK) to skip blocks before the escrow deployment.
+ */
+
+import "dotenv/config";
+import { pool } from "../lib/db";
+import { indexEscrowMandates } from "../services/mandateEscrow";
+
+async function main() {
+  console.log("[indexEscrow] Starting...");
+  const result = await indexEscrowMandates();
+  console.log("[indexEscrow] Done:", result);
+  await pool.end();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+/**
+ * Index Reputation Registry feedback into reputation_feedback and refresh per-agent
+ * feedback aggregates. Resumes from the last block stored in scan_state.
+ *
+ * Run: npm run sync:reputation
+ *      npm run sync:reputation -- --backfill   (also read every known agent's reviews with
+ *                                               readAllFeedback, for reviews before the start block)
+ * Then refreshes every due reviewer profile (transaction count; funding source with EXPLORER_API_KEY).
+ * Set REPUTATION_START_BLOCK (or MANDATE_START_BLOCK) to skip blocks before the registry deployment.
+ */
+
+import "dotenv/config";
+import { pool } from "../lib/db";
+import { getAllAgentIds } from "../services/mandateDiscovery";
+import { backfillAgentFeedback, indexReputationFeedback } from "../services/mandateReputation";
+import { refreshReviewerProfiles } from "../services/reviewerProfiles";
+
+async function main() {
+  console.log("[indexReputation] Starting...");
+  const result = await indexReputationFeedback();
+  console.log("[indexReputation] Done:", result);
+
+  if (process.argv.includes("--backfill")) {
+    const agentIds = await getAllAgentIds();
+    let added = 0;
+    for (const agentId of agentIds) {
+      added += await backfillAgentFeedback(agentId);
+    }
+    console.log(`[indexReputation] Backfill: ${added} reviews added across ${agentIds.length} agents`);
+  }
+
+  const profiles = await refreshReviewerProfiles();
+  console.log("[indexReputation] Reviewer profiles:", profiles);
+
+  await pool.end();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
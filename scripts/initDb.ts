@@ -44,11 +44,23 @@ async function init() {
     `);
     await client.query(`
       CREATE TABLE IF NOT EXISTS scan_state (
-        contract_key TEXT PRIMARY KEY,
+        scan_key TEXT PRIMARY KEY,
         last_block BIGINT NOT NULL DEFAULT 0,
         updated_at TIMESTAMPTZ DEFAULT NOW()
       )
     `);
+    // scan_state was keyed by contract_key before the indexers shared it; keep stored progress.
+    await client.query(`
+      DO $$
+      BEGIN
+        IF EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'scan_state' AND column_name = 'contract_key'
+        ) THEN
+          ALTER TABLE scan_state RENAME COLUMN contract_key TO scan_key;
+        END IF;
+      END $$
+    `);
     await client.query(`
       CREATE TABLE IF NOT EXISTS wallet_metrics (
         wallet TEXT PRIMARY KEY,
@@ -73,6 +85,8 @@ async function init() {
         mandates_completed INT NOT NULL DEFAULT 0,
         mandates_disputed INT NOT NULL DEFAULT 0,
         mandates_cancelled INT NOT NULL DEFAULT 0,
+        mandates_refunded INT NOT NULL DEFAULT 0,
+        mandates_rejected INT NOT NULL DEFAULT 0,
         total_earned_wei TEXT NOT NULL DEFAULT '0',
         -- Reputation metrics (filled by mandateReputation.ts)
         feedback_count INT NOT NULL DEFAULT 0,
@@ -82,6 +96,10 @@ async function init() {
         score INT,
         tier TEXT,
         score_components JSONB,
+        -- Confidence interval (@moltscore/scoring confidence.ts)
+        score_low INT,
+        score_high INT,
+        score_provisional BOOLEAN,
         last_scored_at TIMESTAMPTZ,
         -- Metadata
         discovered_at TIMESTAMPTZ DEFAULT NOW()
@@ -94,6 +112,270 @@ async function init() {
       CREATE INDEX IF NOT EXISTS mandate_agents_wallet_idx ON mandate_agents(wallet_address)
     `);
 
+    // Mandate Protocol: escrow mandates (filled by mandateEscrow.ts)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS mandates (
+        mandate_id TEXT PRIMARY KEY,
+        creator_address TEXT NOT NULL,
+        worker_address TEXT NOT NULL,
+        resolver_address TEXT,
+        amount_wei NUMERIC(78, 0) NOT NULL DEFAULT 0,
+        -- Unix seconds as stored by the escrow contract
+        created_ts BIGINT NOT NULL DEFAULT 0,
+        submitted_ts BIGINT NOT NULL DEFAULT 0,
+        dispute_deposit_wei NUMERIC(78, 0) NOT NULL DEFAULT 0,
+        status SMALLINT NOT NULL,
+        first_seen_block BIGINT,
+        last_event_block BIGINT,
+        last_event_tx TEXT,
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS mandates_worker_idx ON mandates(worker_address)
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS mandates_creator_idx ON mandates(creator_address)
+    `);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS mandate_status_events (
+        id SERIAL PRIMARY KEY,
+        mandate_id TEXT NOT NULL,
+        from_status SMALLINT,
+        to_status SMALLINT NOT NULL,
+        block_number BIGINT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        log_index INT NOT NULL,
+        recorded_at TIMESTAMPTZ DEFAULT NOW(),
+        UNIQUE (mandate_id, tx_hash, log_index)
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS mandate_status_events_mandate_idx ON mandate_status_events(mandate_id, block_number)
+    `);
+    // Reputation Registry reviews (filled by mandateReputation.ts)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS reputation_feedback (
+        agent_id INT NOT NULL,
+        client_address TEXT NOT NULL,
+        feedback_index BIGINT NOT NULL,
+        -- int128 scaled by 10^value_decimals
+        value NUMERIC(39, 0) NOT NULL,
+        value_decimals SMALLINT NOT NULL DEFAULT 0,
+        tag1 TEXT NOT NULL DEFAULT '',
+        tag2 TEXT NOT NULL DEFAULT '',
+        endpoint TEXT,
+        feedback_uri TEXT,
+        feedback_hash TEXT,
+        revoked BOOLEAN NOT NULL DEFAULT FALSE,
+        response_count INT NOT NULL DEFAULT 0,
+        -- Null when backfilled with readAllFeedback instead of seen as an event
+        block_number BIGINT,
+        -- Unix seconds of block_number (review age for recency-aware scoring)
+        block_ts BIGINT,
+        tx_hash TEXT,
+        revoked_block BIGINT,
+        indexed_at TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (agent_id, client_address, feedback_index)
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS reputation_feedback_client_idx ON reputation_feedback(client_address)
+    `);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS reputation_feedback_responses (
+        id SERIAL PRIMARY KEY,
+        agent_id INT NOT NULL,
+        client_address TEXT NOT NULL,
+        feedback_index BIGINT NOT NULL,
+        responder TEXT NOT NULL,
+        response_uri TEXT,
+        response_hash TEXT,
+        block_number BIGINT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        log_index INT NOT NULL,
+        UNIQUE (tx_hash, log_index)
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS reputation_feedback_responses_feedback_idx
+        ON reputation_feedback_responses(agent_id, client_address, feedback_index)
+    `);
+    // Reviewer history and funding source for reviewer weighting (services/reviewerProfiles.ts)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS reviewer_profiles (
+        address TEXT PRIMARY KEY,
+        tx_count INT,
+        -- First incoming transfer; null until found (needs EXPLORER_API_KEY)
+        funded_by TEXT,
+        funded_tx_hash TEXT,
+        checked_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS reviewer_profiles_funded_by_idx ON reviewer_profiles(funded_by)
+    `);
+    // Per-tag peer reputation sub-scores (services/tagReputation.ts)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS agent_tag_reputation (
+        agent_id INT NOT NULL,
+        tag TEXT NOT NULL,
+        feedback_count INT NOT NULL,
+        avg_value FLOAT NOT NULL,
+        reviewers INT NOT NULL,
+        effective_reviewers FLOAT NOT NULL,
+        -- Peer reputation points, and the same scaled to 0–100
+        points INT NOT NULL,
+        score INT NOT NULL,
+        scoring_version TEXT NOT NULL,
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (agent_id, tag)
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS agent_tag_reputation_tag_idx ON agent_tag_reputation(tag, score DESC)
+    `);
+    // One row per agent per scoring cycle (services/mandateScoringEngine.ts)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS score_snapshots (
+        id BIGSERIAL PRIMARY KEY,
+        agent_id INT NOT NULL,
+        score INT NOT NULL,
+        tier TEXT NOT NULL,
+        components JSONB NOT NULL,
+        reputation_source TEXT,
+        scoring_version TEXT NOT NULL,
+        scored_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS score_snapshots_agent_idx ON score_snapshots(agent_id, scored_at DESC)
+    `);
+    // Promotions and demotions between scoring cycles (services/tierEvents.ts)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS tier_events (
+        id BIGSERIAL PRIMARY KEY,
+        agent_id INT NOT NULL,
+        from_tier TEXT NOT NULL,
+        to_tier TEXT NOT NULL,
+        direction TEXT NOT NULL,
+        score_before INT NOT NULL,
+        score_after INT NOT NULL,
+        score_delta INT NOT NULL,
+        cause TEXT NOT NULL,
+        component_deltas JSONB NOT NULL,
+        previous_version TEXT NOT NULL,
+        scoring_version TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS tier_events_agent_idx ON tier_events(agent_id, created_at DESC)
+    `);
+    // Sudden reputation or market swings flagged by the MoltLaunch sync (services/agentAlerts.ts)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS agent_alerts (
+        id BIGSERIAL PRIMARY KEY,
+        agent_id INT NOT NULL,
+        kind TEXT NOT NULL,
+        metric TEXT NOT NULL,
+        previous_value DOUBLE PRECISION NOT NULL,
+        current_value DOUBLE PRECISION NOT NULL,
+        detail TEXT NOT NULL,
+        detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS agent_alerts_agent_idx ON agent_alerts(agent_id, detected_at DESC)
+    `);
+    // Signed TEE attestations (services/attestationStore.ts). Append-only: rows are never
+    // updated or deleted, the trigger below enforces it.
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS score_attestations (
+        id BIGSERIAL PRIMARY KEY,
+        agent_id INT NOT NULL,
+        score INT NOT NULL,
+        components JSONB NOT NULL,
+        scoring_version TEXT NOT NULL,
+        score_timestamp BIGINT NOT NULL,
+        input JSONB NOT NULL,
+        reputation_source TEXT,
+        message TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        signer TEXT NOT NULL,
+        signed_at BIGINT NOT NULL,
+        -- false for the TEE's dev random-wallet signatures
+        production BOOLEAN,
+        eip712 JSONB,
+        -- Block the on-chain inputs were pinned to (null when unpinned)
+        block_number BIGINT,
+        block_hash TEXT,
+        -- Set when the attestation came from POST /score/batch
+        batch_root TEXT,
+        merkle_leaf TEXT,
+        merkle_proof JSONB,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS score_attestations_agent_idx ON score_attestations(agent_id, id DESC)
+    `);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS score_batches (
+        root TEXT PRIMARY KEY,
+        agent_count INT NOT NULL,
+        scoring_version TEXT NOT NULL,
+        batch_timestamp BIGINT NOT NULL,
+        chain_id INT NOT NULL,
+        signer TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await client.query(`
+      CREATE OR REPLACE FUNCTION score_attestations_append_only() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'score_attestations is append-only';
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await client.query(`
+      DROP TRIGGER IF EXISTS score_attestations_no_change ON score_attestations
+    `);
+    await client.query(`
+      CREATE TRIGGER score_attestations_no_change
+      BEFORE UPDATE OR DELETE ON score_attestations
+      FOR EACH ROW EXECUTE FUNCTION score_attestations_append_only()
+    `);
+    // Merkle-rooted leaderboard snapshots (services/leaderboardSnapshots.ts)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+        id SERIAL PRIMARY KEY,
+        root TEXT NOT NULL,
+        entry_count INT NOT NULL,
+        scoring_version TEXT NOT NULL,
+        -- TEE signature over the root; null when the TEE was unavailable
+        signer TEXT,
+        signature TEXT,
+        chain_id INT,
+        snapshot_timestamp BIGINT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS leaderboard_snapshot_entries (
+        snapshot_id INT NOT NULL REFERENCES leaderboard_snapshots(id) ON DELETE CASCADE,
+        agent_id INT NOT NULL,
+        rank INT NOT NULL,
+        score INT NOT NULL,
+        tier TEXT NOT NULL,
+        PRIMARY KEY (snapshot_id, agent_id)
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS leaderboard_snapshot_entries_rank_idx ON leaderboard_snapshot_entries(snapshot_id, rank)
+    `);
+
     await client.query(`
       CREATE TABLE IF NOT EXISTS api_keys (
         id SERIAL PRIMARY KEY,
@@ -0,0 +1,112 @@
+/**
+ * Record a Base JSON-RPC fixture for offline runs (services/rpcFixtures.ts).
+ *
+ * Run: npm run rpc:record -- <agentId...> [--block <tag>] [--logs <fromBlock>:<toBlock>]
+ * Requires BASE_RPC_URL. Resolves --block (number, latest, safe or finalized; default latest)
+ * once and records that block both by tag and by number, then reads each agent through the
+ * same helpers the app and the TEE use: readAgent, readReputationSummary and readAllFeedback
+ * at latest, and fetchOnchainSources pinned to the resolved block, as buildScoreInputForTee
+ * reads it. With --logs it also records the Identity Registry `Registered` logs in
+ * discovery-sized chunks. Writes to RPC_FIXTURE_FILE (default fixtures/rpc/base-mainnet.json);
+ * replay with RPC_MODE=replay.
+ */
+
+import "dotenv/config";
+import { ethers } from "ethers";
+import { fetchOnchainSources, parseBlockTag, resolveSourceBlock } from "@moltscore/scoring";
+import {
+  getProvider,
+  IDENTITY_ABI,
+  IDENTITY_ADDRESS,
+  readAgent,
+  readAllFeedback,
+  readReputationSummary,
+} from "../services/mandateContracts";
+import { FixtureJsonRpcProvider, fixtureFileFromEnv } from "../services/rpcFixtures";
+
+/** Same chunk size as services/mandateDiscovery.ts, so discovery replays the same ranges. */
+const BLOCK_CHUNK = 2000;
+
+interface Args {
+  agentIds: number[];
+  blockTag: number | string;
+  logs: { from: number; to: number } | null;
+}
+
+function parseArgs(argv: string[]): Args {
+  const agentIds: number[] = [];
+  let blockTag: number | string = "latest";
+  let logs: { from: number; to: number } | null = null;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--block") {
+      const tag = parseBlockTag(argv[++i]);
+      if (tag == null) throw new Error("--block expects a block number, latest, safe or finalized");
+      blockTag = tag;
+    } else if (argv[i] === "--logs") {
+      const [from, to] = (argv[++i] ?? "").split(":").map((n) => parseInt(n, 10));
+      if (!Number.isInteger(from) || !Number.isInteger(to) || from > to) {
+        throw new Error("--logs expects <fromBlock>:<toBlock>");
+      }
+      logs = { from, to };
+    } else {
+      const id = parseInt(argv[i], 10);
+      if (!Number.isInteger(id) || id < 0) throw new Error(`Invalid agentId: ${argv[i]}`);
+      agentIds.push(id);
+    }
+  }
+  return { agentIds, blockTag, logs };
+}
+
+async function main() {
+  process.env.RPC_MODE = "record";
+  const { agentIds, blockTag, logs } = parseArgs(process.argv.slice(2));
+  if (agentIds.length === 0 && !logs) {
+    throw new Error("Usage: npm run rpc:record -- <agentId...> [--block <tag>] [--logs <fromBlock>:<toBlock>]");
+  }
+
+  const provider = getProvider();
+  if (!provider) throw new Error("BASE_RPC_URL not set");
+  console.log(`[recordRpcFixture] Recording to ${fixtureFileFromEnv()}`);
+
+  await provider.getBlockNumber();
+  // Recorded by tag and by number, so replay can pin with either (buildScoreInputForTee).
+  const block = await resolveSourceBlock(provider, blockTag);
+  await resolveSourceBlock(provider, block.number);
+  console.log(`[recordRpcFixture] Pinned to block ${block.number} (${block.hash})`);
+
+  for (const agentId of agentIds) {
+    const [agent, summary, feedback] = await Promise.all([
+      readAgent(agentId),
+      readReputationSummary(agentId),
+      readAllFeedback(agentId),
+      fetchOnchainSources(provider, agentId, block.number),
+    ]);
+    console.log(
+      `[recordRpcFixture] Agent ${agentId}: ${agent ? "registered" : "not found"}, ` +
+        `${summary?.count ?? 0} reviews, ${feedback.length} feedback entries`
+    );
+  }
+
+  if (logs) {
+    const topic = new ethers.Interface(IDENTITY_ABI).getEvent("Registered")!.topicHash;
+    let total = 0;
+    for (let from = logs.from; from <= logs.to; from += BLOCK_CHUNK) {
+      const found = await provider.getLogs({
+        address: IDENTITY_ADDRESS,
+        topics: [topic],
+        fromBlock: from,
+        toBlock: Math.min(from + BLOCK_CHUNK - 1, logs.to),
+      });
+      total += found.length;
+    }
+    console.log(`[recordRpcFixture] Registered logs ${logs.from}-${logs.to}: ${total}`);
+  }
+
+  if (provider instanceof FixtureJsonRpcProvider) provider.flush();
+  console.log("[recordRpcFixture] Done");
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
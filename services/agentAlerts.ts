@@ -0,0 +1,214 @@
+/**
+ * Anomaly alerts for sudden reputation or market swings. runMoltlaunchSync diffs each agent's
+ * MoltLaunch metrics against the values from the previous sync (detectAnomalies) and
+ * appends any flags to agent_alerts; /api/agents/:id/alerts and the profile banner read them.
+ * Each sync compares against the one before it, so a swing is flagged once.
+ */
+
+import { pool } from "@/lib/db";
+
+/** The pool runMoltlaunchSync is given. */
+type Queryable = { query: (q: string, v?: unknown[]) => Promise<{ rows: unknown[] }> };
+
+/** Metrics the sync overwrites on every run, as stored in mandate_agents. */
+export interface AgentMarketMetrics {
+  repCount: number;
+  repSummaryValue: number;
+  marketCapUsd: number;
+  volume24hUsd: number;
+  holders: number;
+}
+
+export type AlertKind = "review_burst" | "rep_drop" | "holder_spike" | "volume_spike" | "market_cap_swing";
+
+export const ALERT_LABELS: Record<AlertKind, string> = {
+  review_burst: "Review burst",
+  rep_drop: "Reputation drop",
+  holder_spike: "Holder spike",
+  volume_spike: "Volume spike",
+  market_cap_swing: "Market cap swing",
+};
+
+/**
+ * Between two syncs (about 15 minutes apart). Ratio rules need a non-zero previous value,
+ * so a token's first trades or holders are not flagged.
+ */
+export const ANOMALY_THRESHOLDS = {
+  /** New reviews: at least this many, and at least reviewBurstRatio × the previous count. */
+  reviewBurstMin: 5,
+  reviewBurstRatio: 0.5,
+  /** Drop in MoltLaunch reputation value (0–100). */
+  repDropPoints: 15,
+  /** Holders: at least holderSpikeRatio × the previous count, and holderSpikeMin more. */
+  holderSpikeRatio: 2,
+  holderSpikeMin: 50,
+  /** 24h volume: at least volumeSpikeRatio × the previous value, and at least volumeSpikeMinUsd. */
+  volumeSpikeRatio: 5,
+  volumeSpikeMinUsd: 10_000,
+  /** Market cap moving by this fraction either way, when either side is at least marketCapMinUsd. */
+  marketCapSwingRatio: 0.5,
+  marketCapMinUsd: 10_000,
+} as const;
+
+export interface AgentAlertWrite {
+  agentId: number;
+  kind: AlertKind;
+  metric: keyof AgentMarketMetrics;
+  previousValue: number;
+  currentValue: number;
+  detail: string;
+}
+
+export interface AgentAlert extends AgentAlertWrite {
+  id: number;
+  label: string;
+  detectedAt: string;
+}
+
+interface AgentAlertRow {
+  id: string;
+  agent_id: number;
+  kind: AlertKind;
+  metric: keyof AgentMarketMetrics;
+  previous_value: number;
+  current_value: number;
+  detail: string;
+  detected_at: Date;
+}
+
+function formatUsd(n: number): string {
+  return `$${Math.round(n).toLocaleString("en-US")}`;
+}
+
+/** Anomalies between an agent's previous and current metrics; none without a previous sync. */
+export function detectAnomalies(
+  agentId: number,
+  prev: AgentMarketMetrics | undefined,
+  next: AgentMarketMetrics
+): AgentAlertWrite[] {
+  if (!prev) return [];
+  const t = ANOMALY_THRESHOLDS;
+  const alerts: AgentAlertWrite[] = [];
+  const flag = (kind: AlertKind, metric: keyof AgentMarketMetrics, detail: string) =>
+    alerts.push({ agentId, kind, metric, previousValue: prev[metric], currentValue: next[metric], detail });
+
+  const newReviews = next.repCount - prev.repCount;
+  if (newReviews >= t.reviewBurstMin && newReviews >= prev.repCount * t.reviewBurstRatio) {
+    flag("review_burst", "repCount", `${newReviews} new reviews since the last sync (${prev.repCount} → ${next.repCount})`);
+  }
+
+  const repDrop = prev.repSummaryValue - next.repSummaryValue;
+  if (repDrop >= t.repDropPoints) {
+    flag("rep_drop", "repSummaryValue", `Reputation fell ${repDrop} points (${prev.repSummaryValue} → ${next.repSummaryValue})`);
+  }
+
+  if (
+    prev.holders > 0 &&
+    next.holders >= prev.holders * t.holderSpikeRatio &&
+    next.holders - prev.holders >= t.holderSpikeMin
+  ) {
+    flag("holder_spike", "holders", `Holders jumped from ${prev.holders} to ${next.holders}`);
+  }
+
+  if (
+    prev.volume24hUsd > 0 &&
+    next.volume24hUsd >= prev.volume24hUsd * t.volumeSpikeRatio &&
+    next.volume24hUsd >= t.volumeSpikeMinUsd
+  ) {
+    flag(
+      "volume_spike",
+      "volume24hUsd",
+      `24h volume jumped from ${formatUsd(prev.volume24hUsd)} to ${formatUsd(next.volume24hUsd)}`
+    );
+  }
+
+  if (
+    prev.marketCapUsd > 0 &&
+    Math.max(prev.marketCapUsd, next.marketCapUsd) >= t.marketCapMinUsd &&
+    Math.abs(next.marketCapUsd - prev.marketCapUsd) >= prev.marketCapUsd * t.marketCapSwingRatio
+  ) {
+    const pct = Math.round(((next.marketCapUsd - prev.marketCapUsd) / prev.marketCapUsd) * 100);
+    flag(
+      "market_cap_swing",
+      "marketCapUsd",
+      `Market cap ${pct > 0 ? "rose" : "fell"} ${Math.abs(pct)}% (${formatUsd(prev.marketCapUsd)} → ${formatUsd(next.marketCapUsd)})`
+    );
+  }
+
+  return alerts;
+}
+
+/** Every agent's stored metrics, keyed by agentId (read before the sync overwrites them). */
+export async function loadMarketMetrics(db: Queryable): Promise<Map<number, AgentMarketMetrics>> {
+  const res = await db.query(
+    `SELECT agent_id, rep_count, rep_summary_value, market_cap_usd, volume_24h_usd, holders FROM mandate_agents`
+  );
+  const rows = res.rows as {
+    agent_id: number;
+    rep_count: number | null;
+    rep_summary_value: number | null;
+    market_cap_usd: string | number | null;
+    volume_24h_usd: string | number | null;
+    holders: number | null;
+  }[];
+  return new Map(
+    rows.map((r) => [
+      r.agent_id,
+      {
+        repCount: r.rep_count ?? 0,
+        repSummaryValue: r.rep_summary_value ?? 0,
+        marketCapUsd: Number(r.market_cap_usd ?? 0),
+        volume24hUsd: Number(r.volume_24h_usd ?? 0),
+        holders: r.holders ?? 0,
+      },
+    ])
+  );
+}
+
+export async function insertAgentAlerts(db: Queryable, alerts: AgentAlertWrite[]): Promise<void> {
+  if (alerts.length === 0) return;
+  await db.query(
+    `INSERT INTO agent_alerts (agent_id, kind, metric, previous_value, current_value, detail)
+     SELECT * FROM unnest($1::int[], $2::text[], $3::text[], $4::float8[], $5::float8[], $6::text[])`,
+    [
+      alerts.map((a) => a.agentId),
+      alerts.map((a) => a.kind),
+      alerts.map((a) => a.metric),
+      alerts.map((a) => a.previousValue),
+      alerts.map((a) => a.currentValue),
+      alerts.map((a) => a.detail),
+    ]
+  );
+}
+
+/** One agent's alerts, newest first; only the last `days` days when given. */
+export async function getAgentAlerts(
+  agentId: number,
+  opts: { days?: number | null; limit: number; offset?: number }
+): Promise<{ alerts: AgentAlert[]; total: number }> {
+  const where = `agent_id = $1 AND ($2::int IS NULL OR detected_at >= NOW() - make_interval(days => $2))`;
+  const [countRes, rowsRes] = await Promise.all([
+    pool.query<{ c: number }>(`SELECT COUNT(*)::int AS c FROM agent_alerts WHERE ${where}`, [agentId, opts.days ?? null]),
+    pool.query<AgentAlertRow>(
+      `SELECT * FROM agent_alerts
+       WHERE ${where}
+       ORDER BY detected_at DESC, id DESC
+       LIMIT $3 OFFSET $4`,
+      [agentId, opts.days ?? null, opts.limit, opts.offset ?? 0]
+    ),
+  ]);
+  return {
+    total: countRes.rows[0]?.c ?? 0,
+    alerts: rowsRes.rows.map((r) => ({
+      id: Number(r.id),
+      agentId: r.agent_id,
+      kind: r.kind,
+      label: ALERT_LABELS[r.kind] ?? r.kind,
+      metric: r.metric,
+      previousValue: r.previous_value,
+      currentValue: r.current_value,
+      detail: r.detail,
+      detectedAt: new Date(r.detected_at).toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * Append-only log of signed TEE attestations. Every successful /api/verify/:agentId call
+ * is stored as returned by EigenCompute, so the attested score history can be audited
+ * and the profile can show the last attestation without another TEE round-trip.
+ * Batch-scored attestations also keep their Merkle leaf and proof under a signed root
+ * (score_batches).
+ */
+
+import { pool } from "@/lib/db";
+import type {
+  ReputationSource,
+  ScoreOutputJson,
+  SourceBlock,
+  TypedScoreAttestation,
+  TypedScoreBatch,
+} from "@moltscore/scoring";
+
+const LOG = "[AttestationStore]";
+
+/** Response body of the TEE's /score endpoints. */
+export interface SignedAttestation {
+  score: ScoreOutputJson;
+  attestation: {
+    signer: string;
+    signature: string;
+    message: string;
+    timestamp: number;
+    /** False when signed by the TEE's dev random wallet; absent on older attestations. */
+    production?: boolean;
+  };
+  /** EIP-712 ScoreAttestation signature; absent on attestations from older TEE builds. */
+  eip712?: TypedScoreAttestation | null;
+  /** Block the on-chain inputs were pinned to; null or absent when unpinned. */
+  block?: SourceBlock | null;
+}
+
+/** Inclusion of one attestation in a signed batch root. */
+export interface BatchInclusion {
+  root: string;
+  leaf: string;
+  proof: string[];
+}
+
+/** Inclusion plus the signed root it leads to, as returned from the log. */
+export interface StoredBatchInclusion extends BatchInclusion {
+  rootAttestation: Pick<TypedScoreBatch, "message" | "signature" | "signer"> | null;
+}
+
+export interface StoredAttestation extends SignedAttestation {
+  id: number;
+  agentId: number;
+  reputationSource: ReputationSource | null;
+  batch: StoredBatchInclusion | null;
+  createdAt: string;
+}
+
+interface AttestationRow {
+  id: string;
+  agent_id: number;
+  score: number;
+  components: ScoreOutputJson["components"];
+  scoring_version: string;
+  score_timestamp: string;
+  input: ScoreOutputJson["input"];
+  reputation_source: ReputationSource | null;
+  message: string;
+  signature: string;
+  signer: string;
+  signed_at: string;
+  production: boolean | null;
+  eip712: TypedScoreAttestation | null;
+  block_number: string | null;
+  block_hash: string | null;
+  batch_root: string | null;
+  merkle_leaf: string | null;
+  merkle_proof: string[] | null;
+  created_at: Date;
+  batch_count: number | null;
+  batch_version: string | null;
+  batch_timestamp: string | null;
+  batch_chain_id: number | null;
+  batch_signer: string | null;
+  batch_signature: string | null;
+}
+
+const SELECT_ATTESTATIONS = `
+  SELECT a.id, a.agent_id, a.score, a.components, a.scoring_version, a.score_timestamp, a.input,
+         a.reputation_source, a.message, a.signature, a.signer, a.signed_at, a.production, a.eip712,
+         a.block_number, a.block_hash, a.batch_root, a.merkle_leaf, a.merkle_proof, a.created_at,
+         b.agent_count AS batch_count, b.scoring_version AS batch_version,
+         b.batch_timestamp, b.chain_id AS batch_chain_id,
+         b.signer AS batch_signer, b.signature AS batch_signature
+  FROM score_attestations a
+  LEFT JOIN score_batches b ON b.root = a.batch_root`;
+
+function toBatch(r: AttestationRow): StoredBatchInclusion | null {
+  if (!r.batch_root || !r.merkle_leaf) return null;
+  return {
+    root: r.batch_root,
+    leaf: r.merkle_leaf,
+    proof: r.merkle_proof ?? [],
+    rootAttestation: r.batch_signature && r.batch_signer
+      ? {
+          message: {
+            root: r.batch_root,
+            count: r.batch_count ?? 0,
+            version: r.batch_version ?? r.scoring_version,
+            timestamp: Number(r.batch_timestamp),
+            chainId: r.batch_chain_id ?? 0,
+          },
+          signature: r.batch_signature,
+          signer: r.batch_signer,
+        }
+      : null,
+  };
+}
+
+/**
+ * Explanations (recency, reviewerWeighting, taskPenalties) are not stored; they follow from
+ * input and version, and the verifier recomputes the signed decay string (expectedDecay).
+ */
+function toStored(r: AttestationRow): StoredAttestation {
+  return {
+    id: Number(r.id),
+    agentId: r.agent_id,
+    reputationSource: r.reputation_source,
+    batch: toBatch(r),
+    createdAt: new Date(r.created_at).toISOString(),
+    score: {
+      agentId: r.agent_id,
+      score: r.score,
+      components: r.components,
+      input: r.input,
+      timestamp: Number(r.score_timestamp),
+      version: r.scoring_version,
+    },
+    attestation: {
+      signer: r.signer,
+      signature: r.signature,
+      message: r.message,
+      timestamp: Number(r.signed_at),
+      ...(r.production != null ? { production: r.production } : {}),
+    },
+    eip712: r.eip712,
+    block: r.block_number != null && r.block_hash ? { number: Number(r.block_number), hash: r.block_hash } : null,
+  };
+}
+
+/** Append one attestation; returns its id. */
+export async function recordAttestation(
+  signed: SignedAttestation,
+  reputationSource: ReputationSource | null,
+  batch: BatchInclusion | null = null
+): Promise<number> {
+  const { score, attestation } = signed;
+  const res = await pool.query<{ id: string }>(
+    `INSERT INTO score_attestations
+       (agent_id, score, components, scoring_version, score_timestamp, input,
+        reputation_source, message, signature, signer, signed_at, production, eip712,
+        block_number, block_hash, batch_root, merkle_leaf, merkle_proof)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+     RETURNING id`,
+    [
+      score.agentId,
+      score.score,
+      JSON.stringify(score.components),
+      score.version,
+      score.timestamp,
+      JSON.stringify(score.input),
+      reputationSource,
+      attestation.message,
+      attestation.signature,
+      attestation.signer,
+      attestation.timestamp,
+      attestation.production ?? null,
+      signed.eip712 ? JSON.stringify(signed.eip712) : null,
+      signed.block?.number ?? null,
+      signed.block?.hash ?? null,
+      batch?.root ?? null,
+      batch?.leaf ?? null,
+      batch ? JSON.stringify(batch.proof) : null,
+    ]
+  );
+  const id = Number(res.rows[0].id);
+  console.info(LOG, `Stored attestation ${id} for agent ${score.agentId} (score ${score.score})`);
+  return id;
+}
+
+/** Store a signed batch root; re-recording the same root is a no-op. */
+export async function recordBatch(batch: TypedScoreBatch): Promise<void> {
+  const m = batch.message;
+  await pool.query(
+    `INSERT INTO score_batches (root, agent_count, scoring_version, batch_timestamp, chain_id, signer, signature)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (root) DO NOTHING`,
+    [m.root, m.count, m.version, m.timestamp, m.chainId, batch.signer, batch.signature]
+  );
+}
+
+export async function getAttestation(id: number): Promise<StoredAttestation | null> {
+  const res = await pool.query<AttestationRow>(
+    `${SELECT_ATTESTATIONS} WHERE a.id = $1`,
+    [id]
+  );
+  return res.rows[0] ? toStored(res.rows[0]) : null;
+}
+
+/** Newest first. */
+export async function listAttestations(
+  agentId: number,
+  limit: number,
+  offset: number
+): Promise<{ attestations: StoredAttestation[]; total: number }> {
+  const [countRes, rowsRes] = await Promise.all([
+    pool.query(`SELECT COUNT(*)::int AS c FROM score_attestations WHERE agent_id = $1`, [agentId]),
+    pool.query<AttestationRow>(
+      `${SELECT_ATTESTATIONS}
+       WHERE a.agent_id = $1
+       ORDER BY a.id DESC
+       LIMIT $2 OFFSET $3`,
+      [agentId, limit, offset]
+    ),
+  ]);
+  return {
+    attestations: rowsRes.rows.map(toStored),
+    total: (countRes.rows[0] as { c: number })?.c ?? 0,
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * Merkle-rooted leaderboard snapshots. Each scoring cycle ranks the scores it just
+ * persisted, commits the full (agentId, rank, score, tier, version) leaf set to a Merkle
+ * root and asks the EigenCompute TEE to recompute it from the cycle's inputs and sign that
+ * root (POST /snapshot). Leaves are stored so
+ * /api/snapshots/:id/proof/:agentId can rebuild the tree and serve inclusion proofs.
+ * The signature is kept only when it recovers to an accepted TEE signer (services/teeSigner.ts).
+ *
+ * Snapshot rank is not /api/leaderboard rank: the snapshot ranks every agent the cycle
+ * scored (score, then agentId), while the leaderboard lists only named agents ranked by
+ * reputation and market cap, and can exclude provisional scores.
+ */
+
+import { pool } from "@/lib/db";
+import {
+  buildLeaderboardTree,
+  getMerkleProof,
+  leaderboardLeaf,
+  rankLeaderboard,
+  recoverLeaderboardSnapshotSigner,
+  scoreInputToJson,
+  type LeaderboardEntry,
+  type ScoreInput,
+  type TypedLeaderboardSnapshot,
+} from "@moltscore/scoring";
+import type { ScoredAgent } from "@/services/mandateScoringEngine";
+import { acceptTeeSigner } from "@/services/teeSigner";
+
+const LOG = "[LeaderboardSnapshots]";
+
+const EIGENCOMPUTE_URL = process.env.EIGENCOMPUTE_URL || "";
+
+const SNAPSHOT_TIMEOUT_MS = 60_000;
+
+/** Rows per INSERT when storing entries. */
+const ENTRY_BATCH_SIZE = 1000;
+
+export interface SnapshotResult {
+  id: number;
+  root: string;
+  entries: number;
+  signed: boolean;
+}
+
+export interface SnapshotRecord {
+  id: number;
+  root: string;
+  entryCount: number;
+  scoringVersion: string;
+  /** TEE signature over the root (EIP-712 LeaderboardSnapshot); null if unsigned. */
+  rootAttestation: Pick<TypedLeaderboardSnapshot, "message" | "signature" | "signer"> | null;
+  createdAt: string;
+}
+
+interface SnapshotRow {
+  id: number;
+  root: string;
+  entry_count: number;
+  scoring_version: string;
+  signer: string | null;
+  signature: string | null;
+  chain_id: number | null;
+  snapshot_timestamp: string | null;
+  created_at: Date;
+}
+
+function toRecord(r: SnapshotRow): SnapshotRecord {
+  return {
+    id: r.id,
+    root: r.root,
+    entryCount: r.entry_count,
+    scoringVersion: r.scoring_version,
+    rootAttestation: r.signature && r.signer
+      ? {
+          message: {
+            root: r.root,
+            count: r.entry_count,
+            version: r.scoring_version,
+            timestamp: Number(r.snapshot_timestamp),
+            chainId: r.chain_id ?? 0,
+          },
+          signature: r.signature,
+          signer: r.signer,
+        }
+      : null,
+    createdAt: new Date(r.created_at).toISOString(),
+  };
+}
+
+/**
+ * Ask the TEE to rank the same inputs and sign the root. Returns null (snapshot stays
+ * unsigned) when the TEE is not configured, fails, derives a different root, or signs with
+ * a key that is not an accepted TEE signer at the snapshot's timestamp. The request is
+ * aborted at `deadline` (epoch ms) when given, else after SNAPSHOT_TIMEOUT_MS.
+ */
+async function signOnTee(
+  inputs: ScoreInput[],
+  version: string,
+  root: string,
+  deadline?: number
+): Promise<TypedLeaderboardSnapshot | null> {
+  if (!EIGENCOMPUTE_URL) return null;
+  const timeoutMs = deadline !== undefined ? deadline - Date.now() : SNAPSHOT_TIMEOUT_MS;
+  if (timeoutMs <= 0) {
+    console.warn(LOG, "no time left to sign on the TEE; storing unsigned");
+    return null;
+  }
+  try {
+    const res = await fetch(`${EIGENCOMPUTE_URL}/snapshot`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ inputs: inputs.map(scoreInputToJson), version }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      throw new Error(body.error || `EigenCompute returned ${res.status}`);
+    }
+    const { snapshot } = (await res.json()) as { snapshot: TypedLeaderboardSnapshot };
+    if (snapshot.message.root.toLowerCase() !== root.toLowerCase()) {
+      console.warn(LOG, `TEE root ${snapshot.message.root} differs from local root ${root}; not signing`);
+      return null;
+    }
+    const recovered = recoverLeaderboardSnapshotSigner(snapshot.message, snapshot.signature);
+    if (recovered.toLowerCase() !== snapshot.signer.toLowerCase()) {
+      console.warn(LOG, "TEE snapshot signature does not recover to its signer; not signing");
+      return null;
+    }
+    if (!(await acceptTeeSigner(recovered, Number(snapshot.message.timestamp)))) {
+      console.warn(LOG, `TEE snapshot signer ${recovered} is not a trusted TEE signer; not signing`);
+      return null;
+    }
+    return snapshot;
+  } catch (e) {
+    console.warn(LOG, "TEE signing failed:", String(e).slice(0, 200));
+    return null;
+  }
+}
+
+/**
+ * Rank, sign and store the agents a scoring cycle just scored (runScoringCycle's `scored`),
+ * so the snapshot carries the persisted scores and the TEE recomputes them from the same
+ * inputs. Null when there are no agents. `deadline` (epoch ms) bounds the TEE signing request.
+ */
+export async function createLeaderboardSnapshot(
+  scored: ScoredAgent[],
+  deadline?: number
+): Promise<SnapshotResult | null> {
+  if (scored.length === 0) return null;
+  const version = scored[0].version;
+  if (scored.some((s) => s.version !== version)) {
+    throw new Error("Scored agents span several scoring versions");
+  }
+  const inputs = scored.map((s) => s.input);
+
+  const entries = rankLeaderboard(
+    scored.map((s) => ({ agentId: s.input.agentId, score: s.score })),
+    version
+  );
+  const { root } = buildLeaderboardTree(entries);
+  const signed = await signOnTee(inputs, version, root, deadline);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const snap = await client.query<{ id: number }>(
+      `INSERT INTO leaderboard_snapshots
+         (root, entry_count, scoring_version, signer, signature, chain_id, snapshot_timestamp)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [
+        root,
+        entries.length,
+        version,
+        signed?.signer ?? null,
+        signed?.signature ?? null,
+        signed?.message.chainId ?? null,
+        signed?.message.timestamp ?? null,
+      ]
+    );
+    const id = snap.rows[0].id;
+    for (let i = 0; i < entries.length; i += ENTRY_BATCH_SIZE) {
+      const batch = entries.slice(i, i + ENTRY_BATCH_SIZE);
+      await client.query(
+        `INSERT INTO leaderboard_snapshot_entries (snapshot_id, agent_id, rank, score, tier)
+         SELECT $1, * FROM unnest($2::int[], $3::int[], $4::int[], $5::text[])`,
+        [id, batch.map((e) => e.agentId), batch.map((e) => e.rank), batch.map((e) => e.score), batch.map((e) => e.tier)]
+      );
+    }
+    await client.query("COMMIT");
+
+    console.info(LOG, `Snapshot ${id}: ${entries.length} agents, root ${root}${signed ? " (TEE signed)" : " (unsigned)"}`);
+    return { id, root, entries: entries.length, signed: Boolean(signed) };
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getSnapshot(id: number): Promise<SnapshotRecord | null> {
+  const res = await pool.query<SnapshotRow>(
+    `SELECT id, root, entry_count, scoring_version, signer, signature, chain_id, snapshot_timestamp, created_at
+     FROM leaderboard_snapshots WHERE id = $1`,
+    [id]
+  );
+  return res.rows[0] ? toRecord(res.rows[0]) : null;
+}
+
+/**
+ * Inclusion proof for one agent in a snapshot, rebuilt from the stored leaf set.
+ * Null when the agent is not in the snapshot.
+ */
+export async function getSnapshotProof(
+  snapshot: SnapshotRecord,
+  agentId: number
+): Promise<{ entry: LeaderboardEntry; leaf: string; proof: string[] } | null> {
+  const res = await pool.query<{ agent_id: number; rank: number; score: number; tier: string }>(
+    `SELECT agent_id, rank, score, tier FROM leaderboard_snapshot_entries
+     WHERE snapshot_id = $1
+     ORDER BY rank`,
+    [snapshot.id]
+  );
+  const entries: LeaderboardEntry[] = res.rows.map((r) => ({
+    agentId: r.agent_id,
+    rank: r.rank,
+    score: r.score,
+    tier: r.tier,
+    version: snapshot.scoringVersion,
+  }));
+  const index = entries.findIndex((e) => e.agentId === agentId);
+  if (index < 0) return null;
+
+  const tree = buildLeaderboardTree(entries);
+  if (tree.root.toLowerCase() !== snapshot.root.toLowerCase()) {
+    throw new Error(`Snapshot ${snapshot.id} leaves do not rebuild its root`);
+  }
+  return { entry: entries[index], leaf: leaderboardLeaf(entries[index]), proof: getMerkleProof(tree, index) };
+}
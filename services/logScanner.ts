@@ -0,0 +1,172 @@
+/**
+ * Incremental, chunked event-log scanning shared by the on-chain indexers.
+ *
+ * Progress is persisted per scan key in the `scan_state` table so each run resumes
+ * where the previous one stopped. Public Base RPCs limit getLogs ranges and sometimes
+ * hang instead of erroring, so every chunk is time-boxed and retried. Progress never moves
+ * past a chunk that failed, so no block range is skipped.
+ */
+
+import { ethers } from "ethers";
+import { pool } from "@/lib/db";
+
+const LOG = "[LogScanner]";
+
+/** Block chunk size for getLogs. Public RPCs limit to ~2000-5000 blocks. */
+const BLOCK_CHUNK = 2000;
+
+/** Delay between RPC chunk requests (ms) to avoid rate limits. */
+const CHUNK_DELAY_MS = 200;
+
+/** Default max chunks per run (roughly 2000 * 500 = 1M blocks). */
+const DEFAULT_MAX_CHUNKS = 500;
+
+/** Timeout for a single getLogs call (ms). */
+const RPC_CALL_TIMEOUT_MS = 10_000;
+
+/** Retries for a chunk that hits a timeout or rate limit before the run stops at it. */
+const MAX_RETRIES_PER_CHUNK = 2;
+
+/** Progress log interval (log every N chunks even if no events found). */
+const PROGRESS_LOG_INTERVAL = 50;
+
+/** Read the last processed block from scan_state table. */
+export async function getLastProcessedBlock(key: string): Promise<number | null> {
+  try {
+    const result = await pool.query(
+      "SELECT last_block FROM scan_state WHERE scan_key = $1",
+      [key]
+    );
+    return result.rows.length > 0 ? Number(result.rows[0].last_block) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Write the last processed block to scan_state table. */
+export async function setLastProcessedBlock(key: string, block: number): Promise<void> {
+  await pool.query(
+    `INSERT INTO scan_state (scan_key, last_block, updated_at)
+     VALUES ($1, $2, NOW())
+     ON CONFLICT (scan_key) DO UPDATE SET last_block = $2, updated_at = NOW()`,
+    [key, block]
+  );
+}
+
+/** Parse a start block from an env var; falls back to `fallback` when unset or invalid. */
+export function startBlockFromEnv(name: string, fallback = 0): number {
+  const raw = process.env[name]?.trim();
+  if (raw) {
+    const n = parseInt(raw, 10);
+    if (!Number.isNaN(n) && n >= 0) return n;
+  }
+  return fallback;
+}
+
+export interface ScanOptions {
+  provider: ethers.Provider;
+  /** Key under which progress is stored in scan_state. */
+  scanKey: string;
+  address: string;
+  /** getLogs topic filter; omit to receive every log the contract emits. */
+  topics?: (string | string[] | null)[];
+  /** First block to scan when no progress has been stored yet. */
+  startBlock: number;
+  maxChunks?: number;
+  /** Epoch ms after which no new chunk is started (e.g. the cron route's time budget). */
+  deadline?: number;
+  /** Called once per chunk that returned logs, before progress is persisted. */
+  onLogs: (logs: ethers.Log[], range: { fromBlock: number; toBlock: number }) => Promise<void>;
+}
+
+export interface ScanResult {
+  fromBlock: number;
+  toBlock: number;
+  chunks: number;
+  logs: number;
+}
+
+/**
+ * Scan logs from the last stored block up to the chain head (bounded by maxChunks and deadline).
+ * A chunk that keeps failing (RPC retries exhausted, or its handler throws) stops the run
+ * without being marked as processed, so the next run resumes at that chunk.
+ */
+export async function scanLogs(opts: ScanOptions): Promise<ScanResult> {
+  const { provider, scanKey, address, topics, onLogs } = opts;
+  const maxChunks = opts.maxChunks ?? DEFAULT_MAX_CHUNKS;
+
+  const latestBlock = await provider.getBlockNumber();
+  const lastProcessed = await getLastProcessedBlock(scanKey);
+  const fromBlock = lastProcessed != null ? lastProcessed + 1 : opts.startBlock;
+
+  if (fromBlock > latestBlock) {
+    return { fromBlock, toBlock: latestBlock, chunks: 0, logs: 0 };
+  }
+
+  let totalLogs = 0;
+  let chunks = 0;
+  let retries = 0;
+  let currentFrom = fromBlock;
+  let lastCompleted = fromBlock - 1;
+
+  while (currentFrom <= latestBlock && chunks < maxChunks) {
+    if (opts.deadline !== undefined && Date.now() >= opts.deadline) {
+      console.warn(LOG, `${scanKey}: deadline reached after ${chunks} chunks, resuming at ${currentFrom} next run`);
+      break;
+    }
+    const currentTo = Math.min(currentFrom + BLOCK_CHUNK - 1, latestBlock);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const logsPromise = provider.getLogs({
+        address,
+        topics,
+        fromBlock: currentFrom,
+        toBlock: currentTo,
+      });
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error("RPC_TIMEOUT")), RPC_CALL_TIMEOUT_MS);
+      });
+      const logs = await Promise.race([logsPromise, timeoutPromise]).finally(() => clearTimeout(timer));
+      retries = 0;
+
+      if (logs.length > 0) {
+        await onLogs(logs, { fromBlock: currentFrom, toBlock: currentTo });
+        totalLogs += logs.length;
+      }
+
+      await setLastProcessedBlock(scanKey, currentTo);
+      lastCompleted = currentTo;
+    } catch (e) {
+      const msg = String(e);
+      if (msg.includes("RPC_TIMEOUT") || msg.includes("no backend") || msg.includes("rate limit") || msg.includes("missing revert data")) {
+        retries++;
+        if (retries <= MAX_RETRIES_PER_CHUNK) {
+          console.warn(LOG, `${scanKey}: RPC issue at block ${currentFrom} (retry ${retries}/${MAX_RETRIES_PER_CHUNK}), pausing...`);
+          await new Promise((r) => setTimeout(r, 2000 * retries));
+          continue;
+        }
+        console.warn(LOG, `${scanKey}: stopping at chunk ${currentFrom}-${currentTo} after ${MAX_RETRIES_PER_CHUNK} retries`);
+        break;
+      } else {
+        // Handler or DB failure: stop here so the chunk is rescanned next run.
+        console.error(LOG, `${scanKey}: error at ${currentFrom}-${currentTo}:`, msg.slice(0, 200));
+        break;
+      }
+    }
+
+    currentFrom = currentTo + 1;
+    chunks++;
+
+    if (chunks % PROGRESS_LOG_INTERVAL === 0) {
+      const pct = (((currentFrom - fromBlock) / (latestBlock - fromBlock + 1)) * 100).toFixed(1);
+      console.info(LOG, `${scanKey}: ${chunks} chunks, block ${currentFrom} (${pct}%), ${totalLogs} logs`);
+    }
+
+    if (chunks < maxChunks && currentFrom <= latestBlock) {
+      await new Promise((r) => setTimeout(r, CHUNK_DELAY_MS));
+    }
+  }
+
+  return { fromBlock, toBlock: Math.max(lastCompleted, fromBlock - 1), chunks, logs: totalLogs };
+}
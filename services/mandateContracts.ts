@@ -9,6 +9,12 @@
 import { ethers } from "ethers";
 import IdentityAbiJson from "@/abis/IdentityAbi.json";
 import ReputationAbiJson from "@/abis/ReputationAbi.json";
+import {
+  FixtureJsonRpcProvider,
+  fixtureFileFromEnv,
+  rpcModeFromEnv,
+  RpcFixtureMissError,
+} from "@/services/rpcFixtures";
 
 const LOG = "[MandateContracts]";
 
@@ -120,13 +126,28 @@ export const REPUTATION_ABI = ReputationAbiJson;
 // ---------------------------------------------------------------------------
 let _provider: ethers.JsonRpcProvider | null = null;
 
+/**
+ * Shared Base provider. RPC_MODE=record / replay routes it through a fixture file
+ * (services/rpcFixtures.ts); replay needs no BASE_RPC_URL.
+ */
 export function getProvider(): ethers.JsonRpcProvider | null {
   if (_provider) return _provider;
+  const mode = rpcModeFromEnv();
+  if (mode === "replay") {
+    _provider = new FixtureJsonRpcProvider("replay", fixtureFileFromEnv());
+    console.info(LOG, `Replaying RPC from ${fixtureFileFromEnv()}`);
+    return _provider;
+  }
   const rpcUrl = process.env.BASE_RPC_URL?.trim();
   if (!rpcUrl) {
     console.warn(LOG, "BASE_RPC_URL not set — Mandate contracts unavailable");
     return null;
   }
+  if (mode === "record") {
+    _provider = new FixtureJsonRpcProvider("record", fixtureFileFromEnv(), rpcUrl);
+    console.info(LOG, `Recording RPC to ${fixtureFileFromEnv()}`);
+    return _provider;
+  }
   _provider = new ethers.JsonRpcProvider(rpcUrl);
   return _provider;
 }
@@ -190,6 +211,14 @@ async function withRetry<T>(fn: () => Promise<T>, label: string): Promise<T> {
 // High-level read helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * The read helpers below turn failures into null / empty values, except replay misses: a
+ * request missing from the fixture must fail the run, not look like an agent without data.
+ */
+function throwIfFixtureMiss(e: unknown): void {
+  if (e instanceof RpcFixtureMissError) throw e;
+}
+
 /** Read a single agent from the Identity Registry by token ID. */
 export async function readAgent(agentId: number): Promise<MandateAgent | null> {
   const contract = getIdentityContract();
@@ -198,10 +227,14 @@ export async function readAgent(agentId: number): Promise<MandateAgent | null> {
     const [owner, wallet, uri] = await Promise.all([
       withRetry(() => contract.ownerOf(agentId) as Promise<string>, `ownerOf(${agentId})`),
       withRetry(() => contract.getAgentWallet(agentId) as Promise<string>, `getAgentWallet(${agentId})`),
-      contract.tokenURI(agentId).catch(() => "") as Promise<string>,
+      contract.tokenURI(agentId).catch((e: unknown) => {
+        throwIfFixtureMiss(e);
+        return "";
+      }) as Promise<string>,
     ]);
     return { agentId, owner, wallet, agentURI: uri };
   } catch (e) {
+    throwIfFixtureMiss(e);
     const msg = String(e);
     if (msg.includes("ERC721NonexistentToken") || msg.includes("nonexistent")) return null;
     console.warn(LOG, `readAgent(${agentId}) failed:`, msg.slice(0, 200));
@@ -209,9 +242,22 @@ export async function readAgent(agentId: number): Promise<MandateAgent | null> {
   }
 }
 
-/** Read a mandate from the Escrow contract by bytes32 ID. */
-export async function readMandate(mandateId: string): Promise<Mandate | null> {
-  const contract = getEscrowContract();
+/** The contract reverted the call, as opposed to an RPC or transport failure (no revert data). */
+function isContractRevert(e: unknown): boolean {
+  return ethers.isError(e, "CALL_EXCEPTION") && e.data != null;
+}
+
+/**
+ * Read a mandate from the Escrow contract by bytes32 ID. Null when the mandate does not exist
+ * or the call reverts; RPC and transport errors are thrown so the escrow indexer retries the
+ * chunk instead of dropping the mandate.
+ * Pass a runner (e.g. a provider pointed at anvil) to read from something other than BASE_RPC_URL.
+ */
+export async function readMandate(
+  mandateId: string,
+  runner?: ethers.ContractRunner
+): Promise<Mandate | null> {
+  const contract = runner ? new ethers.Contract(ESCROW_ADDRESS, ESCROW_ABI, runner) : getEscrowContract();
   if (!contract) return null;
   try {
     const m = await withRetry(() => contract.escrows(mandateId), `escrows(${mandateId.slice(0, 18)})`);
@@ -228,7 +274,31 @@ export async function readMandate(mandateId: string): Promise<Mandate | null> {
       status: Number(m.status) as MandateStatus,
     };
   } catch (e) {
-    console.warn(LOG, `readMandate(${mandateId.slice(0, 18)}) failed:`, String(e).slice(0, 200));
+    if (!isContractRevert(e)) throw e;
+    console.warn(LOG, `readMandate(${mandateId.slice(0, 18)}) reverted:`, String(e).slice(0, 200));
+    return null;
+  }
+}
+
+/**
+ * Read a mandate's status as of a given block (requires state for that block on the RPC).
+ * Returns null if the call fails, e.g. on a non-archive node.
+ */
+export async function readMandateStatusAt(
+  mandateId: string,
+  blockTag: number,
+  runner?: ethers.ContractRunner
+): Promise<MandateStatus | null> {
+  const contract = runner ? new ethers.Contract(ESCROW_ADDRESS, ESCROW_ABI, runner) : getEscrowContract();
+  if (!contract) return null;
+  try {
+    const status = await withRetry(
+      () => contract.getStatus(mandateId, { blockTag }),
+      `getStatus(${mandateId.slice(0, 18)}@${blockTag})`
+    );
+    return Number(status) as MandateStatus;
+  } catch (e) {
+    throwIfFixtureMiss(e);
     return null;
   }
 }
@@ -248,13 +318,14 @@ export async function readReputationSummary(agentId: number): Promise<Reputation
       summaryValueDecimals: Number(result.summaryValueDecimals),
     };
   } catch (e) {
+    throwIfFixtureMiss(e);
     console.warn(LOG, `readReputationSummary(${agentId}) failed:`, String(e).slice(0, 200));
     return null;
   }
 }
 
-/** Read all individual feedback entries for an agent. */
-export async function readAllFeedback(agentId: number): Promise<ReputationFeedback[]> {
+/** Read all individual feedback entries for an agent (revoked ones only when asked). */
+export async function readAllFeedback(agentId: number, includeRevoked = false): Promise<ReputationFeedback[]> {
   const contract = getReputationContract();
   if (!contract) return [];
   try {
@@ -262,7 +333,7 @@ export async function readAllFeedback(agentId: number): Promise<ReputationFeedba
     const clients: string[] = [...rawClients];
     if (clients.length === 0) return [];
     const result = await withRetry(
-      () => contract.readAllFeedback(agentId, clients, "", "", false),
+      () => contract.readAllFeedback(agentId, clients, "", "", includeRevoked),
       `readAllFeedback(${agentId})`
     );
     const feedbacks: ReputationFeedback[] = [];
@@ -279,6 +350,7 @@ export async function readAllFeedback(agentId: number): Promise<ReputationFeedba
     }
     return feedbacks;
   } catch (e) {
+    throwIfFixtureMiss(e);
     console.warn(LOG, `readAllFeedback(${agentId}) failed:`, String(e).slice(0, 200));
     return [];
   }
@@ -291,7 +363,8 @@ export async function getReviewerCount(agentId: number): Promise<number> {
   try {
     const rawClients = await withRetry(() => contract.getClients(agentId), `getClients(${agentId})`);
     return rawClients?.length ?? 0;
-  } catch {
+  } catch (e) {
+    throwIfFixtureMiss(e);
     return 0;
   }
 }
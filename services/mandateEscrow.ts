@@ -0,0 +1,425 @@
+/**
+ * Escrow indexer for MandateEscrowV5.
+ *
+ * The escrow contract is unverified, so its event signatures are unknown. Every mandate
+ * event observed so far carries the bytes32 mandateId as its first indexed topic, so we
+ * scan all escrow logs, take topics[1] as a candidate mandateId and resolve it through
+ * `readMandate` (escrows(bytes32)). Candidates that do not resolve to an escrow are ignored.
+ *
+ * Resolved mandates are upserted into the `mandates` table and every status change is
+ * appended to `mandate_status_events` with its block and tx. Per-agent aggregates
+ * (mandates_* and total_earned_wei in mandate_agents) are then recomputed from `mandates`.
+ *
+ * Uses incremental block scanning persisted to `scan_state` table. Point BASE_RPC_URL at
+ * anvil (or pass a provider) to run it against a local chain.
+ */
+
+import { ethers } from "ethers";
+import type { MandateOutcomes } from "@moltscore/scoring";
+import {
+  getProvider,
+  readMandate,
+  readMandateStatusAt,
+  ESCROW_ADDRESS,
+  MandateStatus,
+  type Mandate,
+} from "./mandateContracts";
+import { scanLogs, startBlockFromEnv } from "./logScanner";
+import { pool } from "@/lib/db";
+
+const LOG = "[MandateEscrow]";
+
+/** Contract key for scan_state persistence. */
+const SCAN_KEY = `escrow:${ESCROW_ADDRESS}`;
+
+/** Concurrent readMandate calls per chunk. */
+const READ_BATCH_SIZE = 5;
+
+export interface EscrowIndexResult {
+  mandatesUpserted: number;
+  transitionsRecorded: number;
+  agentsUpdated: number;
+  logs: number;
+  fromBlock: number;
+  toBlock: number;
+}
+
+export interface EscrowIndexOptions {
+  /** Defaults to the BASE_RPC_URL provider. */
+  provider?: ethers.Provider | null;
+  /** Bound the run (e.g. from the cron route) to stay under the function timeout. */
+  maxChunks?: number;
+  /** Epoch ms after which no new block chunk is started. */
+  deadline?: number;
+}
+
+/** A log that touched a mandate, i.e. a point where its status may have changed. */
+export interface MandateSighting {
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+}
+
+/**
+ * Group raw escrow logs by candidate mandate ID, sightings in chain order.
+ */
+export function extractMandateIds(logs: readonly ethers.Log[]): Map<string, MandateSighting[]> {
+  const ids = new Map<string, MandateSighting[]>();
+  for (const log of logs) {
+    const topic = log.topics[1];
+    if (!topic || !ethers.isHexString(topic, 32)) continue;
+    const id = topic.toLowerCase();
+    const list = ids.get(id) ?? [];
+    list.push({ blockNumber: log.blockNumber, txHash: log.transactionHash, logIndex: log.index });
+    ids.set(id, list);
+  }
+  for (const list of ids.values()) {
+    list.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+  return ids;
+}
+
+export interface MandateTransition extends MandateSighting {
+  fromStatus: number | null;
+  toStatus: number;
+}
+
+/**
+ * Status changes along a mandate's sightings, starting from its last recorded status
+ * (`prev`). Sightings with an unknown status (null) are skipped, as are sightings that
+ * repeat the previous status.
+ */
+export function statusTransitions(
+  prev: number | null,
+  sightings: readonly (MandateSighting & { status: number | null })[]
+): MandateTransition[] {
+  const transitions: MandateTransition[] = [];
+  for (const { status, ...s } of sightings) {
+    if (status == null || status === prev) continue;
+    transitions.push({ ...s, fromStatus: prev, toStatus: status });
+    prev = status;
+  }
+  return transitions;
+}
+
+/**
+ * Append status transitions for one mandate. Each sighting's status is read at its block;
+ * when that fails (non-archive RPC) the last sighting falls back to the current status.
+ * Re-scanning a chunk is a no-op thanks to the (mandate_id, tx_hash, log_index) key.
+ */
+async function recordTransitions(
+  mandateId: string,
+  sightings: MandateSighting[],
+  currentStatus: MandateStatus,
+  provider: ethers.Provider
+): Promise<number> {
+  const prevRes = await pool.query(
+    `SELECT to_status FROM mandate_status_events
+     WHERE mandate_id = $1
+     ORDER BY block_number DESC, log_index DESC
+     LIMIT 1`,
+    [mandateId]
+  );
+  const withStatus: (MandateSighting & { status: number | null })[] = [];
+  for (let i = 0; i < sightings.length; i++) {
+    const s = sightings[i];
+    const isLast = i === sightings.length - 1;
+    const status = (await readMandateStatusAt(mandateId, s.blockNumber, provider)) ?? (isLast ? currentStatus : null);
+    withStatus.push({ ...s, status });
+  }
+
+  let recorded = 0;
+  for (const t of statusTransitions(prevRes.rows[0]?.to_status ?? null, withStatus)) {
+    const res = await pool.query(
+      `INSERT INTO mandate_status_events (mandate_id, from_status, to_status, block_number, tx_hash, log_index)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (mandate_id, tx_hash, log_index) DO NOTHING`,
+      [mandateId, t.fromStatus, t.toStatus, t.blockNumber, t.txHash, t.logIndex]
+    );
+    recorded += res.rowCount ?? 0;
+  }
+  return recorded;
+}
+
+/** Upsert a resolved mandate; addresses are stored lowercased for joins. */
+async function upsertMandate(m: Mandate, first: MandateSighting, last: MandateSighting): Promise<void> {
+  await pool.query(
+    `INSERT INTO mandates (
+       mandate_id, creator_address, worker_address, resolver_address,
+       amount_wei, created_ts, submitted_ts, dispute_deposit_wei, status,
+       first_seen_block, last_event_block, last_event_tx, updated_at
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())
+     ON CONFLICT (mandate_id) DO UPDATE SET
+       worker_address = EXCLUDED.worker_address,
+       resolver_address = EXCLUDED.resolver_address,
+       amount_wei = EXCLUDED.amount_wei,
+       submitted_ts = EXCLUDED.submitted_ts,
+       dispute_deposit_wei = EXCLUDED.dispute_deposit_wei,
+       status = EXCLUDED.status,
+       last_event_block = GREATEST(mandates.last_event_block, EXCLUDED.last_event_block),
+       last_event_tx = CASE WHEN EXCLUDED.last_event_block >= mandates.last_event_block
+                            THEN EXCLUDED.last_event_tx ELSE mandates.last_event_tx END,
+       updated_at = NOW()`,
+    [
+      m.mandateId.toLowerCase(),
+      m.creator.toLowerCase(),
+      m.worker.toLowerCase(),
+      m.resolver.toLowerCase(),
+      m.amount.toString(),
+      m.createdAt.toString(),
+      m.submittedAt.toString(),
+      m.disputeDeposit.toString(),
+      m.status,
+      first.blockNumber,
+      last.blockNumber,
+      last.txHash,
+    ]
+  );
+}
+
+export interface AgentAddressRow {
+  agent_id: number;
+  owner_address: string | null;
+  wallet_address: string | null;
+}
+
+/**
+ * The address each agent's mandates are attributed to (lowercase): its wallet, or its owner
+ * when it has no wallet. Several agents can resolve to one address (wallet-less agents of
+ * one owner, or an owner that is also another agent's wallet); each address then goes to
+ * one agent only, preferring an agent whose own wallet it is, then the lowest agent_id, so
+ * no mandate is counted for two agents. Agents left without an address get no entry.
+ */
+export function attributeMandateAddresses(agents: AgentAddressRow[]): Map<number, string> {
+  const candidates = agents
+    .map((a) => ({
+      agentId: a.agent_id,
+      address: (a.wallet_address ?? a.owner_address)?.toLowerCase() ?? null,
+      ownWallet: a.wallet_address != null,
+    }))
+    .filter((c): c is { agentId: number; address: string; ownWallet: boolean } => c.address !== null)
+    .sort((a, b) => Number(b.ownWallet) - Number(a.ownWallet) || a.agentId - b.agentId);
+
+  const claimed = new Set<string>();
+  const byAgent = new Map<number, string>();
+  for (const c of candidates) {
+    if (claimed.has(c.address)) continue;
+    claimed.add(c.address);
+    byAgent.set(c.agentId, c.address);
+  }
+  return byAgent;
+}
+
+/**
+ * attributeMandateAddresses for `agentIds` (default: every agent), loading only the agents
+ * that compete for the same addresses.
+ */
+export async function loadMandateAddresses(agentIds?: number[]): Promise<Map<number, string>> {
+  const res = await pool.query<AgentAddressRow>(
+    `SELECT agent_id, owner_address, wallet_address FROM mandate_agents
+     WHERE $1::int[] IS NULL
+        OR LOWER(COALESCE(wallet_address, owner_address)) IN (
+             SELECT LOWER(COALESCE(wallet_address, owner_address)) FROM mandate_agents WHERE agent_id = ANY($1)
+           )`,
+    [agentIds ?? null]
+  );
+  const all = attributeMandateAddresses(res.rows);
+  if (!agentIds) return all;
+  return new Map([...all].filter(([agentId]) => agentIds.includes(agentId)));
+}
+
+/**
+ * Recompute per-agent escrow aggregates from the mandates table. An agent matches a mandate
+ * when its attributed address (attributeMandateAddresses) is the worker / creator.
+ */
+export async function refreshAgentEscrowMetrics(): Promise<number> {
+  const addresses = await loadMandateAddresses();
+  const res = await pool.query(
+    `WITH addrs AS (
+       SELECT * FROM unnest($6::int[], $7::text[]) AS u(agent_id, address)
+     ),
+     agg AS (
+       SELECT ma.agent_id,
+              COUNT(m.mandate_id) FILTER (WHERE m.worker_address = a.address)::int AS as_worker,
+              COUNT(m.mandate_id) FILTER (WHERE m.creator_address = a.address)::int AS as_creator,
+              COUNT(m.mandate_id) FILTER (WHERE m.worker_address = a.address AND m.status = $1)::int AS completed,
+              COUNT(m.mandate_id) FILTER (WHERE m.worker_address = a.address AND m.status = $2)::int AS disputed,
+              COUNT(m.mandate_id) FILTER (WHERE m.worker_address = a.address AND m.status = $3)::int AS cancelled,
+              COUNT(m.mandate_id) FILTER (WHERE m.worker_address = a.address AND m.status = $4)::int AS refunded,
+              COUNT(m.mandate_id) FILTER (WHERE m.worker_address = a.address AND m.status = $5)::int AS rejected,
+              COALESCE(SUM(m.amount_wei) FILTER (WHERE m.worker_address = a.address AND m.status = $1), 0) AS earned
+       FROM mandate_agents ma
+       LEFT JOIN addrs a ON a.agent_id = ma.agent_id
+       LEFT JOIN mandates m
+         ON m.worker_address = a.address OR m.creator_address = a.address
+       GROUP BY ma.agent_id
+     )
+     UPDATE mandate_agents ma SET
+       mandates_as_worker = agg.as_worker,
+       mandates_as_creator = agg.as_creator,
+       mandates_completed = agg.completed,
+       mandates_disputed = agg.disputed,
+       mandates_cancelled = agg.cancelled,
+       mandates_refunded = agg.refunded,
+       mandates_rejected = agg.rejected,
+       total_earned_wei = agg.earned::text
+     FROM agg
+     WHERE ma.agent_id = agg.agent_id
+       AND (ma.mandates_as_worker, ma.mandates_as_creator, ma.mandates_completed,
+            ma.mandates_disputed, ma.mandates_cancelled, ma.mandates_refunded, ma.mandates_rejected,
+            ma.total_earned_wei)
+           IS DISTINCT FROM
+           (agg.as_worker, agg.as_creator, agg.completed, agg.disputed, agg.cancelled, agg.refunded, agg.rejected,
+            agg.earned::text)`,
+    [
+      MandateStatus.Completed,
+      MandateStatus.Disputed,
+      MandateStatus.Cancelled,
+      MandateStatus.Refunded,
+      MandateStatus.Rejected,
+      [...addresses.keys()],
+      [...addresses.values()],
+    ]
+  );
+  return res.rowCount ?? 0;
+}
+
+/**
+ * Main indexer. Scans escrow logs incrementally, resolves each mandate and refreshes
+ * agent aggregates.
+ */
+export async function indexEscrowMandates(opts: EscrowIndexOptions = {}): Promise<EscrowIndexResult> {
+  const provider = opts.provider === undefined ? getProvider() : opts.provider;
+  if (!provider) {
+    console.warn(LOG, "No provider available — skipping escrow indexing");
+    return { mandatesUpserted: 0, transitionsRecorded: 0, agentsUpdated: 0, logs: 0, fromBlock: 0, toBlock: 0 };
+  }
+
+  let mandatesUpserted = 0;
+  let transitionsRecorded = 0;
+
+  const scan = await scanLogs({
+    provider,
+    scanKey: SCAN_KEY,
+    address: ESCROW_ADDRESS,
+    startBlock: startBlockFromEnv("ESCROW_START_BLOCK", startBlockFromEnv("MANDATE_START_BLOCK")),
+    maxChunks: opts.maxChunks,
+    deadline: opts.deadline,
+    onLogs: async (logs, range) => {
+      const ids = [...extractMandateIds(logs).entries()];
+      let upserted = 0;
+      let transitions = 0;
+      for (let i = 0; i < ids.length; i += READ_BATCH_SIZE) {
+        const batch = ids.slice(i, i + READ_BATCH_SIZE);
+        const mandates = await Promise.all(batch.map(([id]) => readMandate(id, provider)));
+        for (let j = 0; j < batch.length; j++) {
+          const m = mandates[j];
+          if (!m) continue;
+          const [id, sightings] = batch[j];
+          await upsertMandate(m, sightings[0], sightings[sightings.length - 1]);
+          transitions += await recordTransitions(id, sightings, m.status, provider);
+          upserted++;
+        }
+      }
+      mandatesUpserted += upserted;
+      transitionsRecorded += transitions;
+      console.info(LOG, `Chunk ${range.fromBlock}-${range.toBlock}: ${logs.length} logs, ${upserted} mandates upserted, ${transitions} transitions`);
+    },
+  });
+
+  // Always refresh: newly discovered agents or resolved wallets can match existing mandates.
+  const agentsUpdated = await refreshAgentEscrowMetrics();
+
+  console.info(LOG, `Escrow indexing complete: ${mandatesUpserted} mandates, ${agentsUpdated} agents updated (blocks ${scan.fromBlock}→${scan.toBlock})`);
+
+  return {
+    mandatesUpserted,
+    transitionsRecorded,
+    agentsUpdated,
+    logs: scan.logs,
+    fromBlock: scan.fromBlock,
+    toBlock: scan.toBlock,
+  };
+}
+
+export interface AgentEscrowMetrics {
+  mandatesAsWorker: number;
+  mandatesCompleted: number;
+  totalEarnedWei: string;
+  /** Worker mandates by failed outcome (current status). */
+  outcomes: MandateOutcomes;
+}
+
+const NO_OUTCOMES: MandateOutcomes = { disputed: 0, refunded: 0, rejected: 0, cancelled: 0 };
+
+/** Indexed escrow metrics for one agent; zeros when the agent or DB is unavailable. */
+export async function getAgentEscrowMetrics(agentId: number): Promise<AgentEscrowMetrics> {
+  try {
+    const res = await pool.query(
+      `SELECT mandates_as_worker, mandates_completed, total_earned_wei,
+              mandates_disputed, mandates_refunded, mandates_rejected, mandates_cancelled
+       FROM mandate_agents WHERE agent_id = $1`,
+      [agentId]
+    );
+    const row = res.rows[0];
+    if (!row) return { mandatesAsWorker: 0, mandatesCompleted: 0, totalEarnedWei: "0", outcomes: NO_OUTCOMES };
+    return {
+      mandatesAsWorker: row.mandates_as_worker ?? 0,
+      mandatesCompleted: row.mandates_completed ?? 0,
+      totalEarnedWei: row.total_earned_wei ?? "0",
+      outcomes: {
+        disputed: row.mandates_disputed ?? 0,
+        refunded: row.mandates_refunded ?? 0,
+        rejected: row.mandates_rejected ?? 0,
+        cancelled: row.mandates_cancelled ?? 0,
+      },
+    };
+  } catch (e) {
+    console.warn(LOG, `getAgentEscrowMetrics(${agentId}) failed:`, String(e).slice(0, 200));
+    return { mandatesAsWorker: 0, mandatesCompleted: 0, totalEarnedWei: "0", outcomes: NO_OUTCOMES };
+  }
+}
+
+/** Worker mandate statuses that cost task completion points (scoring v1.4.0+). */
+export const PENALIZED_MANDATE_STATUSES = [
+  MandateStatus.Disputed,
+  MandateStatus.Refunded,
+  MandateStatus.Rejected,
+  MandateStatus.Cancelled,
+];
+
+export interface PenalizedMandate {
+  mandateId: string;
+  status: number;
+  creator: string;
+  amountWei: string;
+  /** Unix seconds when the mandate was created. */
+  createdTs: number;
+  lastEventTx: string | null;
+}
+
+/**
+ * The agent's worker mandates currently in a penalized status, newest first. Matches the
+ * same address as refreshAgentEscrowMetrics, so the list adds up to the scored counts.
+ */
+export async function getPenalizedMandates(agentId: number, limit = 20): Promise<PenalizedMandate[]> {
+  const address = (await loadMandateAddresses([agentId])).get(agentId);
+  if (!address) return [];
+  const res = await pool.query(
+    `SELECT m.mandate_id, m.status, m.creator_address, m.amount_wei::text AS amount_wei,
+            m.created_ts, m.last_event_tx
+     FROM mandates m
+     WHERE m.worker_address = $1 AND m.status = ANY($2::int[])
+     ORDER BY m.created_ts DESC, m.mandate_id
+     LIMIT $3`,
+    [address, PENALIZED_MANDATE_STATUSES, limit]
+  );
+  return res.rows.map((r) => ({
+    mandateId: r.mandate_id,
+    status: r.status,
+    creator: r.creator_address,
+    amountWei: r.amount_wei,
+    createdTs: Number(r.created_ts),
+    lastEventTx: r.last_event_tx,
+  }));
+}
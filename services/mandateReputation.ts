@@ -0,0 +1,436 @@
+/**
+ * Reputation Registry indexer.
+ *
+ * Follows `NewFeedback`, `FeedbackRevoked` and `ResponseAppended` and stores one row per
+ * review in `reputation_feedback` (client, index, value, decimals, tags, revoked, response
+ * count) plus every response in `reputation_feedback_responses`. After each chunk the
+ * aggregates in mandate_agents (feedback_count, avg_feedback_value, unique_reviewers) are
+ * recomputed for the agents that chunk touched only. Each review also stores its block's
+ * timestamp (one getBlock per distinct block) for recency-aware scoring.
+ *
+ * Reviews given before the scan's start block are not seen as events; `backfillAgentFeedback`
+ * fills them in from `readAllFeedback`, without block or timestamp.
+ *
+ * Uses incremental block scanning persisted to `scan_state` table.
+ */
+
+import { ethers } from "ethers";
+import {
+  getProvider,
+  readAllFeedback,
+  REPUTATION_ABI,
+  REPUTATION_ADDRESS,
+} from "./mandateContracts";
+import { scanLogs, startBlockFromEnv } from "./logScanner";
+import { pool } from "@/lib/db";
+
+const LOG = "[MandateReputation]";
+
+/** Contract key for scan_state persistence. */
+const SCAN_KEY = `reputation:${REPUTATION_ADDRESS}`;
+
+const iface = new ethers.Interface(REPUTATION_ABI);
+
+const FEEDBACK_TOPICS = ["NewFeedback", "FeedbackRevoked", "ResponseAppended"].map(
+  (name) => iface.getEvent(name)!.topicHash
+);
+
+export interface ReputationIndexResult {
+  feedbackAdded: number;
+  revocations: number;
+  responses: number;
+  agentsUpdated: number;
+  logs: number;
+  fromBlock: number;
+  toBlock: number;
+}
+
+export interface ReputationIndexOptions {
+  /** Defaults to the BASE_RPC_URL provider. */
+  provider?: ethers.Provider | null;
+  /** Bound the run (e.g. from the cron route) to stay under the function timeout. */
+  maxChunks?: number;
+  /** Epoch ms after which no new block chunk is started. */
+  deadline?: number;
+}
+
+/** What one chunk of registry logs changed. */
+interface ChunkResult {
+  feedbackAdded: number;
+  revocations: number;
+  responses: number;
+  agentIds: Set<number>;
+}
+
+/** Block timestamp (unix seconds), cached for the chunk; null when the block cannot be read. */
+async function blockTimestamp(
+  provider: ethers.Provider,
+  blockNumber: number,
+  cache: Map<number, number | null>
+): Promise<number | null> {
+  if (!cache.has(blockNumber)) {
+    const block = await provider.getBlock(blockNumber).catch(() => null);
+    cache.set(blockNumber, block?.timestamp ?? null);
+  }
+  return cache.get(blockNumber) ?? null;
+}
+
+/**
+ * Apply a chunk of registry logs in chain order. Re-scanning a chunk is a no-op: reviews
+ * are keyed by (agent, client, index) and responses by (tx_hash, log_index).
+ */
+async function applyFeedbackLogs(provider: ethers.Provider, logs: readonly ethers.Log[]): Promise<ChunkResult> {
+  const result: ChunkResult = { feedbackAdded: 0, revocations: 0, responses: 0, agentIds: new Set() };
+  const timestamps = new Map<number, number | null>();
+
+  for (const log of logs) {
+    let parsed: ethers.LogDescription | null;
+    try {
+      parsed = iface.parseLog(log);
+    } catch {
+      continue;
+    }
+    if (!parsed) continue;
+
+    const agentId = Number(parsed.args.agentId);
+    const client = String(parsed.args.clientAddress).toLowerCase();
+    const feedbackIndex = Number(parsed.args.feedbackIndex);
+
+    if (parsed.name === "NewFeedback") {
+      // xmax = 0 only for a freshly inserted row, so re-scans are not counted twice
+      const res = await pool.query(
+        `INSERT INTO reputation_feedback (
+           agent_id, client_address, feedback_index, value, value_decimals, tag1, tag2,
+           endpoint, feedback_uri, feedback_hash, block_number, tx_hash, block_ts
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+         ON CONFLICT (agent_id, client_address, feedback_index) DO UPDATE SET
+           block_number = COALESCE(reputation_feedback.block_number, EXCLUDED.block_number),
+           block_ts = COALESCE(reputation_feedback.block_ts, EXCLUDED.block_ts),
+           tx_hash = COALESCE(reputation_feedback.tx_hash, EXCLUDED.tx_hash),
+           endpoint = COALESCE(reputation_feedback.endpoint, EXCLUDED.endpoint),
+           feedback_uri = COALESCE(reputation_feedback.feedback_uri, EXCLUDED.feedback_uri),
+           feedback_hash = COALESCE(reputation_feedback.feedback_hash, EXCLUDED.feedback_hash)
+         RETURNING (xmax = 0) AS inserted`,
+        [
+          agentId,
+          client,
+          feedbackIndex,
+          parsed.args.value.toString(),
+          Number(parsed.args.valueDecimals),
+          parsed.args.tag1,
+          parsed.args.tag2,
+          parsed.args.endpoint,
+          parsed.args.feedbackURI,
+          parsed.args.feedbackHash,
+          log.blockNumber,
+          log.transactionHash,
+          await blockTimestamp(provider, log.blockNumber, timestamps),
+        ]
+      );
+      if (res.rows[0]?.inserted) result.feedbackAdded++;
+      result.agentIds.add(agentId);
+    } else if (parsed.name === "FeedbackRevoked") {
+      const res = await pool.query(
+        `UPDATE reputation_feedback SET revoked = TRUE, revoked_block = $4
+         WHERE agent_id = $1 AND client_address = $2 AND feedback_index = $3 AND NOT revoked`,
+        [agentId, client, feedbackIndex, log.blockNumber]
+      );
+      if ((res.rowCount ?? 0) > 0) {
+        result.revocations++;
+        result.agentIds.add(agentId);
+      } else {
+        console.warn(LOG, `Revocation of unknown feedback ${agentId}/${client}/${feedbackIndex} — run a backfill`);
+      }
+    } else if (parsed.name === "ResponseAppended") {
+      const res = await pool.query(
+        `INSERT INTO reputation_feedback_responses (
+           agent_id, client_address, feedback_index, responder, response_uri, response_hash,
+           block_number, tx_hash, log_index
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (tx_hash, log_index) DO NOTHING`,
+        [
+          agentId,
+          client,
+          feedbackIndex,
+          String(parsed.args.responder).toLowerCase(),
+          parsed.args.responseURI,
+          parsed.args.responseHash,
+          log.blockNumber,
+          log.transactionHash,
+          log.index,
+        ]
+      );
+      if ((res.rowCount ?? 0) > 0) {
+        await pool.query(
+          `UPDATE reputation_feedback SET response_count = response_count + 1
+           WHERE agent_id = $1 AND client_address = $2 AND feedback_index = $3`,
+          [agentId, client, feedbackIndex]
+        );
+        result.responses++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Recompute feedback_count, avg_feedback_value (mean of value / 10^decimals) and
+ * unique_reviewers for the given agents from their non-revoked reviews.
+ */
+export async function refreshFeedbackAggregates(agentIds: number[]): Promise<number> {
+  if (agentIds.length === 0) return 0;
+  const res = await pool.query(
+    `WITH agg AS (
+       SELECT ids.agent_id,
+              COUNT(f.agent_id)::int AS feedback_count,
+              COALESCE(AVG(f.value / POWER(10::numeric, f.value_decimals)), 0)::float8 AS avg_value,
+              COUNT(DISTINCT f.client_address)::int AS reviewers
+       FROM unnest($1::int[]) AS ids(agent_id)
+       LEFT JOIN reputation_feedback f ON f.agent_id = ids.agent_id AND NOT f.revoked
+       GROUP BY ids.agent_id
+     )
+     UPDATE mandate_agents ma SET
+       feedback_count = agg.feedback_count,
+       avg_feedback_value = agg.avg_value,
+       unique_reviewers = agg.reviewers
+     FROM agg
+     WHERE ma.agent_id = agg.agent_id
+       AND (ma.feedback_count, ma.avg_feedback_value, ma.unique_reviewers)
+           IS DISTINCT FROM (agg.feedback_count, agg.avg_value, agg.reviewers)`,
+    [agentIds]
+  );
+  return res.rowCount ?? 0;
+}
+
+/**
+ * Main indexer. Scans registry logs incrementally and refreshes the aggregates of every
+ * agent a chunk touched.
+ */
+export async function indexReputationFeedback(opts: ReputationIndexOptions = {}): Promise<ReputationIndexResult> {
+  const provider = opts.provider === undefined ? getProvider() : opts.provider;
+  if (!provider) {
+    console.warn(LOG, "No provider available — skipping reputation indexing");
+    return { feedbackAdded: 0, revocations: 0, responses: 0, agentsUpdated: 0, logs: 0, fromBlock: 0, toBlock: 0 };
+  }
+
+  let feedbackAdded = 0;
+  let revocations = 0;
+  let responses = 0;
+  let agentsUpdated = 0;
+
+  const scan = await scanLogs({
+    provider,
+    scanKey: SCAN_KEY,
+    address: REPUTATION_ADDRESS,
+    topics: [FEEDBACK_TOPICS],
+    startBlock: startBlockFromEnv("REPUTATION_START_BLOCK", startBlockFromEnv("MANDATE_START_BLOCK")),
+    maxChunks: opts.maxChunks,
+    deadline: opts.deadline,
+    onLogs: async (logs, range) => {
+      const chunk = await applyFeedbackLogs(provider, logs);
+      const updated = await refreshFeedbackAggregates([...chunk.agentIds]);
+      feedbackAdded += chunk.feedbackAdded;
+      revocations += chunk.revocations;
+      responses += chunk.responses;
+      agentsUpdated += updated;
+      console.info(
+        LOG,
+        `Chunk ${range.fromBlock}-${range.toBlock}: ${logs.length} logs, ${chunk.feedbackAdded} reviews, ` +
+          `${chunk.revocations} revocations, ${chunk.responses} responses, ${updated} agents updated`
+      );
+    },
+  });
+
+  console.info(LOG, `Reputation indexing complete: ${feedbackAdded} reviews, ${agentsUpdated} agent updates (blocks ${scan.fromBlock}→${scan.toBlock})`);
+
+  return {
+    feedbackAdded,
+    revocations,
+    responses,
+    agentsUpdated,
+    logs: scan.logs,
+    fromBlock: scan.fromBlock,
+    toBlock: scan.toBlock,
+  };
+}
+
+/**
+ * Fill in an agent's reviews from `readAllFeedback` (including revoked ones), for reviews
+ * given before the scan's start block. Existing rows only pick up the revoked flag; event
+ * data (block, tx, URIs) is kept. Returns the number of reviews added.
+ */
+export async function backfillAgentFeedback(agentId: number): Promise<number> {
+  const feedback = await readAllFeedback(agentId, true);
+  let added = 0;
+  for (const f of feedback) {
+    const res = await pool.query(
+      `INSERT INTO reputation_feedback (
+         agent_id, client_address, feedback_index, value, value_decimals, tag1, tag2, revoked, response_count
+       )
+       SELECT $1, $2, $3, $4, $5, $6, $7, $8,
+              (SELECT COUNT(*)::int FROM reputation_feedback_responses r
+               WHERE r.agent_id = $1 AND r.client_address = $2 AND r.feedback_index = $3)
+       ON CONFLICT (agent_id, client_address, feedback_index) DO UPDATE SET
+         revoked = reputation_feedback.revoked OR EXCLUDED.revoked
+       RETURNING (xmax = 0) AS inserted`,
+      [agentId, f.client.toLowerCase(), f.feedbackIndex, f.value.toString(), f.valueDecimals, f.tag1, f.tag2, f.isRevoked]
+    );
+    if (res.rows[0]?.inserted) added++;
+  }
+  if (feedback.length > 0) await refreshFeedbackAggregates([agentId]);
+  return added;
+}
+
+/* ---------- Reads (agent profile reviews) ---------- */
+
+/** positive: value > 0, negative: value < 0 (both exclude revoked); revoked: revoked only. */
+export const REVIEW_FILTERS = ["all", "positive", "negative", "revoked"] as const;
+export type ReviewFilter = (typeof REVIEW_FILTERS)[number];
+
+const FILTER_SQL: Record<ReviewFilter, string> = {
+  all: "TRUE",
+  positive: "NOT f.revoked AND f.value > 0",
+  negative: "NOT f.revoked AND f.value < 0",
+  revoked: "f.revoked",
+};
+
+export interface ReviewResponse {
+  responder: string;
+  responseUri: string | null;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface AgentReview {
+  client: string;
+  /** Set when the reviewer's address is a registered agent's wallet or owner. */
+  reviewerAgent: { agentId: number; name: string | null } | null;
+  feedbackIndex: number;
+  /** Raw int128 as a decimal string. */
+  value: string;
+  valueDecimals: number;
+  /** value / 10^valueDecimals */
+  displayValue: number;
+  tag1: string;
+  tag2: string;
+  feedbackUri: string | null;
+  revoked: boolean;
+  responses: ReviewResponse[];
+  blockNumber: number | null;
+  txHash: string | null;
+}
+
+export interface TagBucket {
+  tag: string;
+  total: number;
+  positive: number;
+  negative: number;
+  revoked: number;
+}
+
+interface ReviewRow {
+  client_address: string;
+  reviewer_agent_id: number | null;
+  reviewer_name: string | null;
+  feedback_index: string;
+  value: string;
+  value_decimals: number;
+  tag1: string;
+  tag2: string;
+  feedback_uri: string | null;
+  revoked: boolean;
+  block_number: string | null;
+  tx_hash: string | null;
+  responses: { responder: string; responseUri: string | null; blockNumber: string; txHash: string }[];
+}
+
+/** Reviews for one agent, newest first, with responses and reviewer agent names. */
+export async function listAgentReviews(
+  agentId: number,
+  opts: { filter?: ReviewFilter; tag?: string | null; limit: number; offset: number }
+): Promise<{ reviews: AgentReview[]; total: number }> {
+  const where = `f.agent_id = $1 AND ${FILTER_SQL[opts.filter ?? "all"]}
+    AND ($2::text IS NULL OR f.tag1 = $2 OR f.tag2 = $2)`;
+  const tag = opts.tag || null;
+
+  const [countRes, rowsRes] = await Promise.all([
+    pool.query(`SELECT COUNT(*)::int AS c FROM reputation_feedback f WHERE ${where}`, [agentId, tag]),
+    pool.query<ReviewRow>(
+      `SELECT f.client_address, f.feedback_index, f.value::text AS value, f.value_decimals,
+              f.tag1, f.tag2, f.feedback_uri, f.revoked, f.block_number, f.tx_hash,
+              reviewer.agent_id AS reviewer_agent_id, reviewer.name AS reviewer_name,
+              COALESCE((
+                SELECT json_agg(json_build_object(
+                         'responder', r.responder, 'responseUri', r.response_uri,
+                         'blockNumber', r.block_number, 'txHash', r.tx_hash
+                       ) ORDER BY r.block_number, r.log_index)
+                FROM reputation_feedback_responses r
+                WHERE r.agent_id = f.agent_id AND r.client_address = f.client_address
+                  AND r.feedback_index = f.feedback_index
+              ), '[]'::json) AS responses
+       FROM reputation_feedback f
+       LEFT JOIN LATERAL (
+         SELECT a.agent_id, a.name FROM mandate_agents a
+         WHERE LOWER(a.wallet_address) = f.client_address OR LOWER(a.owner_address) = f.client_address
+         ORDER BY (LOWER(a.wallet_address) = f.client_address) DESC, a.agent_id
+         LIMIT 1
+       ) reviewer ON TRUE
+       WHERE ${where}
+       ORDER BY f.block_number DESC NULLS LAST, f.feedback_index DESC
+       LIMIT $3 OFFSET $4`,
+      [agentId, tag, opts.limit, opts.offset]
+    ),
+  ]);
+
+  return {
+    reviews: rowsRes.rows.map((r) => ({
+      client: r.client_address,
+      reviewerAgent: r.reviewer_agent_id != null ? { agentId: r.reviewer_agent_id, name: r.reviewer_name } : null,
+      feedbackIndex: Number(r.feedback_index),
+      value: r.value,
+      valueDecimals: r.value_decimals,
+      displayValue: Number(ethers.formatUnits(r.value, r.value_decimals)),
+      tag1: r.tag1,
+      tag2: r.tag2,
+      feedbackUri: r.feedback_uri,
+      revoked: r.revoked,
+      responses: r.responses.map((x) => ({ ...x, blockNumber: Number(x.blockNumber) })),
+      blockNumber: r.block_number != null ? Number(r.block_number) : null,
+      txHash: r.tx_hash,
+    })),
+    total: (countRes.rows[0] as { c: number })?.c ?? 0,
+  };
+}
+
+/** Review counts per tag (tag1 and tag2 together), most used first. */
+export async function getAgentReviewTags(agentId: number, limit = 20): Promise<TagBucket[]> {
+  const res = await pool.query<TagBucket>(
+    `SELECT t.tag,
+            COUNT(*)::int AS total,
+            COUNT(*) FILTER (WHERE NOT f.revoked AND f.value > 0)::int AS positive,
+            COUNT(*) FILTER (WHERE NOT f.revoked AND f.value < 0)::int AS negative,
+            COUNT(*) FILTER (WHERE f.revoked)::int AS revoked
+     FROM reputation_feedback f
+     CROSS JOIN LATERAL (SELECT DISTINCT unnest(ARRAY[f.tag1, f.tag2]) AS tag) t
+     WHERE f.agent_id = $1 AND t.tag <> ''
+     GROUP BY t.tag
+     ORDER BY total DESC, t.tag
+     LIMIT $2`,
+    [agentId, limit]
+  );
+  return res.rows;
+}
+
+/** Review counts per filter, for the filter tabs. */
+export async function getAgentReviewCounts(agentId: number): Promise<Record<ReviewFilter, number>> {
+  const res = await pool.query<Record<ReviewFilter, number>>(
+    `SELECT COUNT(*)::int AS all,
+            COUNT(*) FILTER (WHERE NOT revoked AND value > 0)::int AS positive,
+            COUNT(*) FILTER (WHERE NOT revoked AND value < 0)::int AS negative,
+            COUNT(*) FILTER (WHERE revoked)::int AS revoked
+     FROM reputation_feedback WHERE agent_id = $1`,
+    [agentId]
+  );
+  return res.rows[0] ?? { all: 0, positive: 0, negative: 0, revoked: 0 };
+}
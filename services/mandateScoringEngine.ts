@@ -0,0 +1,269 @@
+/**
+ * In-app scoring engine. Scores every agent in mandate_agents with the shared scoring
+ * module the EigenCompute TEE runs (@moltscore/scoring), assigns tiers and persists
+ * score, tier, score_components, the confidence interval (score_low, score_high,
+ * score_provisional) and last_scored_at, and appends one score_snapshots row
+ * per agent so the score can be charted over time (services/scoreHistory.ts). Tiers come
+ * from the scoring version's ladder; each promotion or demotion since the agent's previous
+ * snapshot is recorded in tier_events (services/tierEvents.ts).
+ *
+ * Inputs come from the DB only (MoltLaunch sync, escrow and reputation indexers, cached
+ * reviewer profiles), so a full cycle makes no RPC calls and fits in the cron route's time
+ * budget. Recency ages are measured from the cycle's start. When reviewers are weighted,
+ * recency applies or mandates are penalized, score_components.reviewerWeighting / .recency /
+ * .taskPenalties explain how; .skippedAdjustments says when reviewer weighting or review
+ * decay was not applied because the reputation came from MoltLaunch.
+ */
+
+import { pool } from "@/lib/db";
+import {
+  assignTier,
+  computeScore,
+  resolveScoreInput,
+  type RecencyInput,
+  type ReputationSource,
+  type ReviewerSignal,
+  type ScoreConfidence,
+  type ScoreInput,
+} from "@moltscore/scoring";
+import { getLatestSnapshots, insertScoreSnapshots, type SnapshotWrite } from "@/services/scoreHistory";
+import { detectTierChange, insertTierEvents, type TierEventWrite } from "@/services/tierEvents";
+import { loadReviewerSignals } from "@/services/reviewerProfiles";
+import { loadRecencyInputs } from "@/services/recencyInputs";
+
+const LOG = "[MandateScoringEngine]";
+
+/** Rows per UPDATE statement when persisting scores. */
+const WRITE_BATCH_SIZE = 500;
+
+export interface AgentScoreRow {
+  agent_id: number;
+  owner_address: string | null;
+  agent_uri: string | null;
+  rep_count: number | null;
+  rep_summary_value: number | null;
+  feedback_count: number | null;
+  avg_feedback_value: number | null;
+  completed_tasks: number | null;
+  active_tasks: number | null;
+  mandates_as_worker: number | null;
+  mandates_completed: number | null;
+  mandates_disputed: number | null;
+  mandates_refunded: number | null;
+  mandates_rejected: number | null;
+  mandates_cancelled: number | null;
+  total_earned_wei: string | null;
+}
+
+export interface ScoringCycleResult {
+  scored: number;
+  errors: number;
+  tiers: Record<string, number>;
+  promotions: number;
+  demotions: number;
+}
+
+/** One agent as scored by runScoringCycle: the exact input and the score persisted for it. */
+export interface ScoredAgent {
+  input: ScoreInput;
+  score: number;
+  version: string;
+}
+
+/**
+ * Map a mandate_agents row to ScoreInput via the shared resolveScoreInput, the same merge
+ * rule buildScoreInputForTee applies to live data. `reviewers` come from loadReviewerSignals,
+ * `recency` from loadRecencyInputs.
+ */
+export function scoreInputFromRow(
+  row: AgentScoreRow,
+  reviewers: ReviewerSignal[] | null = null,
+  recency: RecencyInput | null = null
+): ReturnType<typeof resolveScoreInput> {
+  const feedbackCount = row.feedback_count ?? 0;
+  return resolveScoreInput({
+    agentId: row.agent_id,
+    identity: { agentURI: row.agent_uri, owner: row.owner_address },
+    onchainReputation: feedbackCount > 0
+      ? { count: feedbackCount, summaryValue: Math.round((row.avg_feedback_value ?? 0) * feedbackCount) }
+      : null,
+    moltlaunch: {
+      reputation: { count: row.rep_count ?? 0, summaryValue: row.rep_summary_value ?? 0 },
+      completedTasks: row.completed_tasks ?? 0,
+      activeTasks: row.active_tasks ?? 0,
+    },
+    escrow: {
+      mandatesAsWorker: row.mandates_as_worker ?? 0,
+      mandatesCompleted: row.mandates_completed ?? 0,
+      totalEarnedWei: row.total_earned_wei ?? "0",
+      outcomes: {
+        disputed: row.mandates_disputed ?? 0,
+        refunded: row.mandates_refunded ?? 0,
+        rejected: row.mandates_rejected ?? 0,
+        cancelled: row.mandates_cancelled ?? 0,
+      },
+    },
+    reviewers,
+    recency,
+  });
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+const SCORE_ROW_COLUMNS = `agent_id, owner_address, agent_uri, rep_count, rep_summary_value,
+  feedback_count, avg_feedback_value, completed_tasks, active_tasks,
+  mandates_as_worker, mandates_completed, mandates_disputed, mandates_refunded, mandates_rejected,
+  mandates_cancelled, total_earned_wei`;
+
+/**
+ * Load one agent's stored inputs and resolve them to a ScoreInput. Null when the agent is
+ * not in mandate_agents.
+ */
+export async function getAgentScoreInput(
+  agentId: number
+): Promise<{ input: ScoreInput; reputationSource: ReputationSource } | null> {
+  const res = await pool.query<AgentScoreRow>(
+    `SELECT ${SCORE_ROW_COLUMNS} FROM mandate_agents WHERE agent_id = $1 LIMIT 1`,
+    [agentId]
+  );
+  if (!res.rows[0]) return null;
+  const [reviewers, recency] = await Promise.all([
+    loadReviewerSignals([agentId]),
+    loadRecencyInputs(nowSeconds(), [agentId]),
+  ]);
+  return scoreInputFromRow(res.rows[0], reviewers.get(agentId) ?? null, recency.get(agentId) ?? null);
+}
+
+/**
+ * Every agent's resolved ScoreInput (e.g. for batch attestation on the TEE). `reviewers`
+ * reuses signals already loaded by the caller instead of querying them again.
+ */
+export async function getAllAgentScoreInputs(
+  reviewers?: Map<number, ReviewerSignal[]>
+): Promise<{ input: ScoreInput; reputationSource: ReputationSource }[]> {
+  const [res, signals, recency] = await Promise.all([
+    pool.query<AgentScoreRow>(`SELECT ${SCORE_ROW_COLUMNS} FROM mandate_agents ORDER BY agent_id`),
+    reviewers ?? loadReviewerSignals(),
+    loadRecencyInputs(nowSeconds()),
+  ]);
+  return res.rows.map((row) =>
+    scoreInputFromRow(row, signals.get(row.agent_id) ?? null, recency.get(row.agent_id) ?? null)
+  );
+}
+
+async function writeScores(
+  rows: {
+    agentId: number;
+    score: number;
+    tier: string;
+    components: Record<string, unknown>;
+    confidence: ScoreConfidence | null;
+  }[]
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+    const batch = rows.slice(i, i + WRITE_BATCH_SIZE);
+    await pool.query(
+      `UPDATE mandate_agents m SET
+         score = u.score,
+         tier = u.tier,
+         score_components = u.components,
+         score_low = u.score_low,
+         score_high = u.score_high,
+         score_provisional = u.provisional,
+         last_scored_at = NOW()
+       FROM unnest($1::int[], $2::int[], $3::text[], $4::jsonb[], $5::int[], $6::int[], $7::boolean[])
+         AS u(agent_id, score, tier, components, score_low, score_high, provisional)
+       WHERE m.agent_id = u.agent_id`,
+      [
+        batch.map((r) => r.agentId),
+        batch.map((r) => r.score),
+        batch.map((r) => r.tier),
+        batch.map((r) => JSON.stringify(r.components)),
+        batch.map((r) => r.confidence?.low ?? null),
+        batch.map((r) => r.confidence?.high ?? null),
+        batch.map((r) => r.confidence?.provisional ?? null),
+      ]
+    );
+  }
+}
+
+/**
+ * Score every agent and persist the results. Returns counts per tier (`result`) and every
+ * successfully scored agent (`scored`), so the cron route can snapshot exactly the scores
+ * it persisted. `preloaded` reuses reviewer signals the caller already loaded.
+ */
+export async function runScoringCycle(
+  preloaded?: Map<number, ReviewerSignal[]>
+): Promise<{ result: ScoringCycleResult; scored: ScoredAgent[] }> {
+  const [res, reviewers, recency, previous] = await Promise.all([
+    pool.query<AgentScoreRow>(`SELECT ${SCORE_ROW_COLUMNS} FROM mandate_agents`),
+    preloaded ?? loadReviewerSignals(),
+    loadRecencyInputs(nowSeconds()),
+    getLatestSnapshots(),
+  ]);
+
+  const results: SnapshotWrite[] = [];
+  const scored: ScoredAgent[] = [];
+  const tierEvents: TierEventWrite[] = [];
+  const explanations = new Map<number, Record<string, unknown>>();
+  const confidence = new Map<number, ScoreConfidence>();
+  const tiers: Record<string, number> = {};
+  let errors = 0;
+
+  for (const row of res.rows) {
+    try {
+      const { input, reputationSource, skippedAdjustments } = scoreInputFromRow(
+        row,
+        reviewers.get(row.agent_id) ?? null,
+        recency.get(row.agent_id) ?? null
+      );
+      const out = computeScore(input);
+      if (out.reviewerWeighting || out.recency || out.taskPenalties || skippedAdjustments) {
+        explanations.set(row.agent_id, {
+          ...(out.reviewerWeighting ? { reviewerWeighting: out.reviewerWeighting } : {}),
+          ...(out.recency ? { recency: out.recency } : {}),
+          ...(out.taskPenalties ? { taskPenalties: out.taskPenalties } : {}),
+          ...(skippedAdjustments ? { skippedAdjustments } : {}),
+        });
+      }
+      if (out.confidence) confidence.set(row.agent_id, out.confidence);
+      const tier = assignTier(out.score, out.version);
+      const snapshot: SnapshotWrite = {
+        agentId: row.agent_id,
+        score: out.score,
+        tier,
+        components: out.components,
+        reputationSource,
+        scoringVersion: out.version,
+      };
+      results.push(snapshot);
+      scored.push({ input, score: out.score, version: out.version });
+      const tierEvent = detectTierChange(previous.get(row.agent_id), snapshot);
+      if (tierEvent) tierEvents.push(tierEvent);
+      tiers[tier] = (tiers[tier] ?? 0) + 1;
+    } catch (e) {
+      errors++;
+      console.warn(LOG, `agent ${row.agent_id} failed:`, String(e).slice(0, 200));
+    }
+  }
+
+  await writeScores(
+    results.map((r) => {
+      const explanation = explanations.get(r.agentId);
+      return {
+        ...r,
+        components: explanation ? { ...r.components, ...explanation } : r.components,
+        confidence: confidence.get(r.agentId) ?? null,
+      };
+    })
+  );
+  await insertScoreSnapshots(results, WRITE_BATCH_SIZE);
+  await insertTierEvents(tierEvents);
+  const promotions = tierEvents.filter((e) => e.direction === "promotion").length;
+  const demotions = tierEvents.length - promotions;
+  console.info(LOG, `Scored ${results.length} agents (${errors} errors, ${promotions} promotions, ${demotions} demotions)`, tiers);
+
+  return { result: { scored: results.length, errors, tiers, promotions, demotions }, scored };
+}
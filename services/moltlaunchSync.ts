@@ -2,8 +2,14 @@
  * MoltLaunch API → mandate_agents sync. Fetches all pages and upserts.
  * Used by POST /api/cron/score so the DB stays in sync with api.moltlaunch.com.
  * List endpoint returns burn data on each agent; we skip per-agent gig/burn calls to stay under serverless timeout.
+ * Each agent's reputation and market metrics are diffed against the previous sync and
+ * sudden swings are flagged in agent_alerts (services/agentAlerts.ts). Alerts are inserted
+ * after each page, so a later page failing does not lose swings already overwritten by the
+ * upserts.
  */
 
+import { detectAnomalies, insertAgentAlerts, loadMarketMetrics, type AgentAlertWrite } from "./agentAlerts";
+
 const API_BASE = "https://api.moltlaunch.com/api/agents";
 
 interface MoltAgent {
@@ -59,6 +65,8 @@ export interface MoltlaunchSyncResult {
   synced: number;
   errors: number;
   dbCount: number;
+  /** Anomalies flagged in agent_alerts. */
+  alerts: number;
 }
 
 /**
@@ -73,12 +81,16 @@ export async function runMoltlaunchSync(
   let synced = 0;
   let errors = 0;
   let page = 1;
+  let alertCount = 0;
+  const previous = await loadMarketMetrics(pool);
 
   while (page <= totalPages) {
     const data = await fetchPage(page);
     totalPages = data.pages;
     totalFromApi = data.total;
 
+    const alerts: AgentAlertWrite[] = [];
+
     for (const agent of data.agents) {
       try {
         const agentId = parseInt(agent.agentIdBigInt, 10);
@@ -169,13 +181,31 @@ export async function runMoltlaunchSync(
           ]
         );
         synced++;
+        alerts.push(
+          ...detectAnomalies(agentId, previous.get(agentId), {
+            repCount: agent.reputation?.count ?? 0,
+            repSummaryValue: agent.reputation?.summaryValue ?? 0,
+            marketCapUsd: agent.marketCapUSD ?? 0,
+            volume24hUsd: agent.volume24hUSD ?? 0,
+            holders: agent.holders ?? 0,
+          })
+        );
       } catch (e) {
         errors++;
         console.warn("[moltlaunchSync] agent", agent.agentIdBigInt, (e as Error).message);
       }
     }
+
+    // Alerts are advisory: a failed insert must not fail the sync.
+    try {
+      await insertAgentAlerts(pool, alerts);
+      alertCount += alerts.length;
+    } catch (e) {
+      console.warn("[moltlaunchSync] alerts", (e as Error).message);
+    }
     page++;
   }
+  if (alertCount > 0) console.info("[moltlaunchSync]", `${alertCount} anomalies flagged`);
 
   const countResult = await pool.query("SELECT COUNT(*)::int AS cnt FROM mandate_agents");
   const dbCount = (countResult.rows[0] as { cnt: number })?.cnt ?? 0;
@@ -186,5 +216,6 @@ export async function runMoltlaunchSync(
     synced,
     errors,
     dbCount,
+    alerts: alertCount,
   };
 }
@@ -0,0 +1,90 @@
+/**
+ * Timestamps for recency-aware scoring (@moltscore/scoring recency.ts): review times from
+ * reputation_feedback.block_ts, completion times of indexed escrow mandates (submitted_ts,
+ * else created_ts) and MoltLaunch's last_active_at. DB-only, like the rest of the cron
+ * scoring inputs.
+ */
+
+import type { RecencyInput, RecencyReview } from "@moltscore/scoring";
+import { MandateStatus } from "./mandateContracts";
+import { loadMandateAddresses } from "./mandateEscrow";
+import { pool } from "@/lib/db";
+
+/**
+ * Recency input per agent, every age measured from `asOf` (unix seconds). Every agent in
+ * mandate_agents (or in `agentIds`) gets an entry, with empty lists when it has no data.
+ */
+export async function loadRecencyInputs(asOf: number, agentIds?: number[]): Promise<Map<number, RecencyInput>> {
+  const ids = agentIds ?? null;
+  const addresses = await loadMandateAddresses(agentIds);
+  const [agents, reviews, completions] = await Promise.all([
+    pool.query<{ agent_id: number; last_active: string | null }>(
+      `SELECT agent_id, EXTRACT(EPOCH FROM last_active_at)::bigint AS last_active
+       FROM mandate_agents WHERE ($1::int[] IS NULL OR agent_id = ANY($1))`,
+      [ids]
+    ),
+    pool.query<{ agent_id: number; reviewer: string; value: number; at: string | null }>(
+      `SELECT agent_id, client_address AS reviewer,
+              (value / POWER(10::numeric, value_decimals))::float8 AS value,
+              block_ts AS at
+       FROM reputation_feedback
+       WHERE NOT revoked AND ($1::int[] IS NULL OR agent_id = ANY($1))`,
+      [ids]
+    ),
+    pool.query<{ agent_id: number; at: string }>(
+      `SELECT a.agent_id, COALESCE(NULLIF(m.submitted_ts, 0), m.created_ts) AS at
+       FROM unnest($1::int[], $2::text[]) AS a(agent_id, address)
+       JOIN mandates m ON m.worker_address = a.address
+       WHERE m.status = $3`,
+      [[...addresses.keys()], [...addresses.values()], MandateStatus.Completed]
+    ),
+  ]);
+
+  const byAgent = new Map<number, RecencyInput>();
+  for (const row of agents.rows) {
+    byAgent.set(row.agent_id, {
+      asOf,
+      lastActiveAt: row.last_active != null ? Number(row.last_active) : null,
+      reviews: [],
+      completions: [],
+    });
+  }
+  for (const row of reviews.rows) {
+    byAgent.get(row.agent_id)?.reviews.push({
+      reviewer: row.reviewer,
+      value: row.value,
+      at: row.at != null ? Number(row.at) : null,
+    });
+  }
+  for (const row of completions.rows) {
+    const at = Number(row.at);
+    if (at > 0) byAgent.get(row.agent_id)?.completions.push(at);
+  }
+  return byAgent;
+}
+
+/**
+ * Non-revoked reviews per agent and tag, for per-tag reputation. A review counts for its tag1
+ * and tag2 (lowercased, empty tags skipped), as in loadTagReviewerSignals.
+ */
+export async function loadTagRecencyReviews(): Promise<Map<number, Map<string, RecencyReview[]>>> {
+  const res = await pool.query<{ agent_id: number; tag: string; reviewer: string; value: number; at: string | null }>(
+    `SELECT f.agent_id, tags.tag, f.client_address AS reviewer,
+            (f.value / POWER(10::numeric, f.value_decimals))::float8 AS value,
+            f.block_ts AS at
+     FROM reputation_feedback f
+     CROSS JOIN LATERAL (
+       SELECT DISTINCT lower(trim(t)) AS tag FROM unnest(ARRAY[f.tag1, f.tag2]) AS t WHERE trim(t) <> ''
+     ) tags
+     WHERE NOT f.revoked`
+  );
+  const byAgent = new Map<number, Map<string, RecencyReview[]>>();
+  for (const row of res.rows) {
+    const tags = byAgent.get(row.agent_id) ?? new Map<string, RecencyReview[]>();
+    const list = tags.get(row.tag) ?? [];
+    list.push({ reviewer: row.reviewer, value: row.value, at: row.at != null ? Number(row.at) : null });
+    tags.set(row.tag, list);
+    byAgent.set(row.agent_id, tags);
+  }
+  return byAgent;
+}
@@ -0,0 +1,232 @@
+/**
+ * Reviewer signals for reviewer weighting (@moltscore/scoring reviewers.ts).
+ *
+ * `refreshReviewerProfiles` caches, per Reputation Registry client, its outgoing transaction
+ * count (nonce, over RPC) and the address of its first incoming transfer (over an
+ * Etherscan-compatible explorer API; skipped without EXPLORER_API_KEY) in reviewer_profiles.
+ * `loadReviewerSignals` joins those with indexed reviews and agent ownership, so scoring
+ * itself stays DB-only.
+ */
+
+import { ethers } from "ethers";
+import type { ReviewerSignal } from "@moltscore/scoring";
+import { getProvider } from "./mandateContracts";
+import { pool } from "@/lib/db";
+
+const LOG = "[ReviewerProfiles]";
+
+const EXPLORER_API_URL = process.env.EXPLORER_API_URL?.trim() || "https://api.etherscan.io/v2/api";
+const BASE_CHAIN_ID = 8453;
+const EXPLORER_TIMEOUT_MS = 10_000;
+
+/** Transaction counts are re-read after this long; funding sources never change. */
+const PROFILE_TTL_HOURS = 24;
+
+/**
+ * Funders ignored for clustering (e.g. exchange hot wallets that fund many unrelated users),
+ * from REVIEWER_FUNDER_ALLOWLIST (comma-separated addresses).
+ */
+function funderAllowlist(): string[] {
+  return (process.env.REVIEWER_FUNDER_ALLOWLIST ?? "")
+    .split(",")
+    .map((a) => a.trim().toLowerCase())
+    .filter((a) => ethers.isAddress(a));
+}
+
+interface ExplorerTx {
+  from: string;
+  to: string;
+  value: string;
+  hash: string;
+  isError?: string;
+}
+
+/**
+ * First successful incoming transfer with value to `address`, from the explorer's ascending
+ * txlist. Null when the explorer is not configured or the address was funded some other way
+ * (e.g. an internal transfer from a contract).
+ */
+export async function fetchFirstFunder(address: string): Promise<{ funder: string; txHash: string } | null> {
+  const apiKey = process.env.EXPLORER_API_KEY?.trim();
+  if (!apiKey) return null;
+
+  const params = new URLSearchParams({
+    chainid: String(BASE_CHAIN_ID),
+    module: "account",
+    action: "txlist",
+    address,
+    startblock: "0",
+    endblock: "latest",
+    page: "1",
+    offset: "25",
+    sort: "asc",
+    apikey: apiKey,
+  });
+  const res = await fetch(`${EXPLORER_API_URL}?${params}`, { signal: AbortSignal.timeout(EXPLORER_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`Explorer API ${res.status}`);
+  const json = (await res.json()) as { status?: string; result?: ExplorerTx[] | string };
+  if (!Array.isArray(json.result)) return null;
+
+  const funding = json.result.find(
+    (tx) => tx.to?.toLowerCase() === address && tx.isError !== "1" && BigInt(tx.value || "0") > BigInt(0)
+  );
+  return funding ? { funder: funding.from.toLowerCase(), txHash: funding.hash } : null;
+}
+
+export interface ReviewerProfileRefreshResult {
+  checked: number;
+  funded: number;
+  errors: number;
+}
+
+/**
+ * Refresh profiles for reviewers never checked or checked more than PROFILE_TTL_HOURS ago,
+ * oldest first. `limit` and `deadline` (epoch ms after which no further reviewer is checked)
+ * bound the run (e.g. from the cron route).
+ */
+export async function refreshReviewerProfiles(
+  opts: { provider?: ethers.Provider | null; limit?: number; deadline?: number } = {}
+): Promise<ReviewerProfileRefreshResult> {
+  const provider = opts.provider === undefined ? getProvider() : opts.provider;
+  if (!provider) {
+    console.warn(LOG, "No provider — skipping reviewer profiles");
+    return { checked: 0, funded: 0, errors: 0 };
+  }
+
+  const due = await pool.query<{ address: string; funded_by: string | null }>(
+    `SELECT c.address, p.funded_by
+     FROM (SELECT DISTINCT client_address AS address FROM reputation_feedback) c
+     LEFT JOIN reviewer_profiles p ON p.address = c.address
+     WHERE p.address IS NULL OR p.checked_at < NOW() - make_interval(hours => $1)
+     ORDER BY p.checked_at ASC NULLS FIRST
+     LIMIT $2`,
+    [PROFILE_TTL_HOURS, opts.limit ?? 1_000_000]
+  );
+
+  const result: ReviewerProfileRefreshResult = { checked: 0, funded: 0, errors: 0 };
+  for (const row of due.rows) {
+    if (opts.deadline !== undefined && Date.now() >= opts.deadline) {
+      console.warn(LOG, `Deadline reached after ${result.checked + result.errors} of ${due.rows.length} reviewers`);
+      break;
+    }
+    try {
+      const txCount = await provider.getTransactionCount(row.address);
+      const funding = row.funded_by ? null : await fetchFirstFunder(row.address);
+      await pool.query(
+        `INSERT INTO reviewer_profiles (address, tx_count, funded_by, funded_tx_hash, checked_at)
+         VALUES ($1, $2, $3, $4, NOW())
+         ON CONFLICT (address) DO UPDATE SET
+           tx_count = EXCLUDED.tx_count,
+           funded_by = COALESCE(reviewer_profiles.funded_by, EXCLUDED.funded_by),
+           funded_tx_hash = COALESCE(reviewer_profiles.funded_tx_hash, EXCLUDED.funded_tx_hash),
+           checked_at = NOW()`,
+        [row.address, txCount, funding?.funder ?? null, funding?.txHash ?? null]
+      );
+      result.checked++;
+      if (funding) result.funded++;
+    } catch (e) {
+      result.errors++;
+      console.warn(LOG, `profile ${row.address} failed:`, String(e).slice(0, 200));
+    }
+  }
+
+  if (result.checked > 0 || result.errors > 0) {
+    console.info(LOG, `Checked ${result.checked} reviewers (${result.funded} funding sources, ${result.errors} errors)`);
+  }
+  return result;
+}
+
+interface SignalRow {
+  agent_id: number;
+  tag: string;
+  address: string;
+  reviews: number;
+  value_sum: number;
+  shares_owner: boolean;
+  tx_count: number | null;
+  funded_by: string | null;
+}
+
+/**
+ * Per-(agent, reviewer) aggregates over non-revoked reviews; with `byTag`, per (agent, tag,
+ * reviewer), where a review counts for its tag1 and tag2 (lowercased, empty tags skipped).
+ * owner_addresses lists every (owner, owner or wallet address) pair once, so shares_owner is a
+ * hash join rather than a subquery per review.
+ */
+async function querySignals(agentIds: number[] | null, byTag: boolean): Promise<SignalRow[]> {
+  const tagJoin = byTag
+    ? `CROSS JOIN LATERAL (
+         SELECT DISTINCT lower(trim(t)) AS tag FROM unnest(ARRAY[f.tag1, f.tag2]) AS t WHERE trim(t) <> ''
+       ) tags`
+    : "";
+  const tagCol = byTag ? "tags.tag" : "''";
+  const tagGroup = byTag ? "tags.tag, " : "";
+  const res = await pool.query<SignalRow>(
+    `WITH owner_addresses AS (
+       SELECT DISTINCT lower(o.owner_address) AS owner, lower(x.address) AS address
+       FROM mandate_agents o
+       CROSS JOIN LATERAL unnest(ARRAY[o.owner_address, o.wallet_address]) AS x(address)
+       WHERE o.owner_address IS NOT NULL AND x.address IS NOT NULL
+     )
+     SELECT f.agent_id,
+            ${tagCol} AS tag,
+            f.client_address AS address,
+            COUNT(*)::int AS reviews,
+            SUM(f.value / POWER(10::numeric, f.value_decimals))::float8 AS value_sum,
+            BOOL_OR(oa.address IS NOT NULL) AS shares_owner,
+            p.tx_count,
+            p.funded_by
+     FROM reputation_feedback f
+     JOIN mandate_agents a ON a.agent_id = f.agent_id
+     LEFT JOIN owner_addresses oa ON oa.owner = lower(a.owner_address) AND oa.address = f.client_address
+     LEFT JOIN reviewer_profiles p ON p.address = f.client_address
+     ${tagJoin}
+     WHERE NOT f.revoked AND ($1::int[] IS NULL OR f.agent_id = ANY($1))
+     GROUP BY f.agent_id, ${tagGroup}f.client_address, p.tx_count, p.funded_by`,
+    [agentIds]
+  );
+  return res.rows;
+}
+
+function toSignal(row: SignalRow, ignoredFunders: Set<string>): ReviewerSignal {
+  return {
+    address: row.address,
+    reviews: row.reviews,
+    valueSum: row.value_sum,
+    sharesOwner: row.shares_owner,
+    txCount: row.tx_count,
+    fundedBy: row.funded_by && !ignoredFunders.has(row.funded_by) ? row.funded_by : null,
+  };
+}
+
+/**
+ * Reviewer signals per agent from non-revoked indexed reviews. A reviewer shares the owner
+ * when it is the owner or wallet of any agent owned by the reviewed agent's owner (the agent
+ * itself included). Agents without reviews are absent from the map.
+ */
+export async function loadReviewerSignals(agentIds?: number[]): Promise<Map<number, ReviewerSignal[]>> {
+  const rows = await querySignals(agentIds ?? null, false);
+  const ignoredFunders = new Set(funderAllowlist());
+  const byAgent = new Map<number, ReviewerSignal[]>();
+  for (const row of rows) {
+    const list = byAgent.get(row.agent_id) ?? [];
+    list.push(toSignal(row, ignoredFunders));
+    byAgent.set(row.agent_id, list);
+  }
+  return byAgent;
+}
+
+/** Like loadReviewerSignals, split by review tag: agent → tag → signals. */
+export async function loadTagReviewerSignals(agentIds?: number[]): Promise<Map<number, Map<string, ReviewerSignal[]>>> {
+  const rows = await querySignals(agentIds ?? null, true);
+  const ignoredFunders = new Set(funderAllowlist());
+  const byAgent = new Map<number, Map<string, ReviewerSignal[]>>();
+  for (const row of rows) {
+    const tags = byAgent.get(row.agent_id) ?? new Map<string, ReviewerSignal[]>();
+    const list = tags.get(row.tag) ?? [];
+    list.push(toSignal(row, ignoredFunders));
+    tags.set(row.tag, list);
+    byAgent.set(row.agent_id, tags);
+  }
+  return byAgent;
+}
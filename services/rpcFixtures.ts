@@ -0,0 +1,155 @@
+/**
+ * Record/replay layer for Base JSON-RPC, behind getProvider() in services/mandateContracts.ts.
+ *
+ * RPC_MODE=record sends every request to BASE_RPC_URL as usual and writes each response
+ * (eth_call for ownerOf / getAgentWallet / tokenURI / getClients / getSummary /
+ * readAllFeedback, eth_getLogs, eth_blockNumber, ...) to RPC_FIXTURE_FILE.
+ * RPC_MODE=replay answers the same requests from that file without touching the network,
+ * so discovery, reputation reads and scoring run deterministically offline.
+ *
+ * Responses are keyed by method + params, so replay only works for requests made exactly
+ * as recorded (same agent ids, same getLogs ranges, same block tags). Reverts are recorded
+ * as JSON-RPC errors and replayed as such. Anything else throws RpcFixtureMissError, which
+ * the read helpers never turn into empty data.
+ *
+ * Recording keeps entries in memory and writes the file shortly after the last request
+ * (and on exit, or on flush()), not once per request.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { ethers } from "ethers";
+
+const LOG = "[RpcFixtures]";
+
+export type RpcMode = "live" | "record" | "replay";
+
+export const DEFAULT_RPC_FIXTURE_FILE = "fixtures/rpc/base-mainnet.json";
+
+/** Quiet period after the last recorded response before the fixture is written. */
+const SAVE_DEBOUNCE_MS = 1000;
+
+/** One recorded request and its raw JSON-RPC response (result or error). */
+export interface RpcFixtureEntry {
+  method: string;
+  params: unknown;
+  result?: unknown;
+  error?: { code: number; message?: string; data?: unknown };
+}
+
+export interface RpcFixture {
+  chainId: number | null;
+  recordedAt: string;
+  /** Keyed by fixtureKey(method, params). */
+  entries: Record<string, RpcFixtureEntry>;
+}
+
+export class RpcFixtureMissError extends Error {
+  constructor(method: string, params: unknown) {
+    super(`No recorded response for ${method} ${JSON.stringify(params)}`);
+    this.name = "RpcFixtureMissError";
+  }
+}
+
+export function rpcModeFromEnv(): RpcMode {
+  const mode = process.env.RPC_MODE?.trim().toLowerCase();
+  if (mode === "record" || mode === "replay") return mode;
+  if (mode && mode !== "live") console.warn(LOG, `Unknown RPC_MODE "${mode}" — using live`);
+  return "live";
+}
+
+export function fixtureFileFromEnv(): string {
+  return resolve(process.cwd(), process.env.RPC_FIXTURE_FILE?.trim() || DEFAULT_RPC_FIXTURE_FILE);
+}
+
+export function fixtureKey(method: string, params: unknown): string {
+  return `${method} ${JSON.stringify(params)}`;
+}
+
+export function loadFixture(file: string): RpcFixture {
+  if (!existsSync(file)) return { chainId: null, recordedAt: new Date().toISOString(), entries: {} };
+  return JSON.parse(readFileSync(file, "utf8")) as RpcFixture;
+}
+
+/** Entries are written in key order so re-recording produces small diffs. */
+export function saveFixture(file: string, fixture: RpcFixture): void {
+  const entries = Object.fromEntries(Object.keys(fixture.entries).sort().map((k) => [k, fixture.entries[k]]));
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify({ ...fixture, entries }, null, 2) + "\n");
+}
+
+/**
+ * JsonRpcProvider that records responses to, or replays them from, a fixture file.
+ * In replay mode the URL is never contacted and the network comes from the fixture.
+ */
+export class FixtureJsonRpcProvider extends ethers.JsonRpcProvider {
+  readonly mode: "record" | "replay";
+  readonly file: string;
+  private fixture: RpcFixture;
+  private dirty = false;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(mode: "record" | "replay", file: string, rpcUrl?: string) {
+    const fixture = loadFixture(file);
+    if (mode === "replay" && fixture.chainId == null) {
+      throw new Error(`${LOG} ${file} has no recorded chainId; record it first with RPC_MODE=record`);
+    }
+    super(
+      rpcUrl,
+      mode === "replay" ? Number(fixture.chainId) : undefined,
+      mode === "replay" ? { staticNetwork: true } : undefined
+    );
+    this.mode = mode;
+    this.file = file;
+    this.fixture = fixture;
+    if (mode === "record") process.once("exit", () => this.flush());
+  }
+
+  /** Write pending recorded responses now. No-op in replay mode or when nothing changed. */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.dirty) return;
+    saveFixture(this.file, this.fixture);
+    this.dirty = false;
+  }
+
+  private scheduleSave(): void {
+    this.dirty = true;
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DEBOUNCE_MS);
+    // Do not keep the process alive for the write; the exit hook flushes instead.
+    this.saveTimer.unref?.();
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+
+    if (this.mode === "replay") {
+      return payloads.map((p) => {
+        const entry = this.fixture.entries[fixtureKey(p.method, p.params)];
+        if (!entry) throw new RpcFixtureMissError(p.method, p.params);
+        // Errors are replayed as JSON-RPC error responses, which ethers turns into reverts.
+        const response = entry.error ? { id: p.id, error: entry.error } : { id: p.id, result: entry.result };
+        return response as ethers.JsonRpcResult;
+      });
+    }
+
+    const results = await super._send(payload);
+    for (const r of results as (ethers.JsonRpcResult | ethers.JsonRpcError)[]) {
+      const p = payloads.find((x) => x.id === r.id);
+      if (!p) continue;
+      this.fixture.entries[fixtureKey(p.method, p.params)] = {
+        method: p.method,
+        params: p.params,
+        ...("error" in r ? { error: r.error } : { result: r.result }),
+      };
+      if (p.method === "eth_chainId" && "result" in r) this.fixture.chainId = Number(r.result);
+    }
+    this.fixture.recordedAt = new Date().toISOString();
+    this.scheduleSave();
+    return results;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Score history: one score_snapshots row per agent per scoring cycle, written by
+ * runScoringCycle. Queried by /api/agents/:id/score/history and the profile trend chart,
+ * and by the next cycle to detect tier changes (services/tierEvents.ts).
+ */
+
+import { pool } from "@/lib/db";
+
+export const HISTORY_RANGES = {
+  "24h": "24 hours",
+  "7d": "7 days",
+  "30d": "30 days",
+  "90d": "90 days",
+  "1y": "1 year",
+  all: null,
+} as const;
+
+/** "raw" returns every snapshot; other buckets keep the last snapshot in each period. */
+export const HISTORY_BUCKETS = ["raw", "hour", "day", "week"] as const;
+
+export type HistoryRange = keyof typeof HISTORY_RANGES;
+export type HistoryBucket = (typeof HISTORY_BUCKETS)[number];
+
+/** Hard cap on points returned, newest kept. */
+const MAX_POINTS = 1000;
+
+export interface SnapshotWrite {
+  agentId: number;
+  score: number;
+  tier: string;
+  components: Record<string, number>;
+  reputationSource: string;
+  scoringVersion: string;
+}
+
+export interface ScoreHistoryPoint {
+  t: string;
+  score: number;
+  tier: string;
+  components: Record<string, number>;
+  reputationSource: string | null;
+  scoringVersion: string;
+}
+
+interface SnapshotRow {
+  scored_at: Date;
+  score: number;
+  tier: string;
+  components: Record<string, number>;
+  reputation_source: string | null;
+  scoring_version: string;
+}
+
+export function isHistoryRange(v: string): v is HistoryRange {
+  return Object.prototype.hasOwnProperty.call(HISTORY_RANGES, v);
+}
+
+export function isHistoryBucket(v: string): v is HistoryBucket {
+  return (HISTORY_BUCKETS as readonly string[]).includes(v);
+}
+
+/** Append snapshots in batches (one INSERT per batch). */
+export async function insertScoreSnapshots(rows: SnapshotWrite[], batchSize = 500): Promise<void> {
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = rows.slice(i, i + batchSize);
+    await pool.query(
+      `INSERT INTO score_snapshots (agent_id, score, tier, components, reputation_source, scoring_version)
+       SELECT * FROM unnest($1::int[], $2::int[], $3::text[], $4::jsonb[], $5::text[], $6::text[])`,
+      [
+        batch.map((r) => r.agentId),
+        batch.map((r) => r.score),
+        batch.map((r) => r.tier),
+        batch.map((r) => JSON.stringify(r.components)),
+        batch.map((r) => r.reputationSource),
+        batch.map((r) => r.scoringVersion),
+      ]
+    );
+  }
+}
+
+/** Every agent's most recent snapshot, keyed by agentId. */
+export async function getLatestSnapshots(): Promise<Map<number, SnapshotWrite>> {
+  const res = await pool.query<SnapshotRow & { agent_id: number }>(
+    `SELECT DISTINCT ON (agent_id)
+            agent_id, scored_at, score, tier, components, reputation_source, scoring_version
+     FROM score_snapshots
+     ORDER BY agent_id, scored_at DESC`
+  );
+  return new Map(
+    res.rows.map((r) => [
+      r.agent_id,
+      {
+        agentId: r.agent_id,
+        score: r.score,
+        tier: r.tier,
+        components: r.components,
+        reputationSource: r.reputation_source ?? "",
+        scoringVersion: r.scoring_version,
+      },
+    ])
+  );
+}
+
+/** Snapshots for one agent in ascending time order. */
+export async function getScoreHistory(
+  agentId: number,
+  range: HistoryRange = "30d",
+  bucket: HistoryBucket = "day"
+): Promise<ScoreHistoryPoint[]> {
+  const interval = HISTORY_RANGES[range];
+  const inRange = `agent_id = $1 AND ($2::interval IS NULL OR scored_at >= NOW() - $2::interval)`;
+
+  const sql =
+    bucket === "raw"
+      ? `SELECT scored_at, score, tier, components, reputation_source, scoring_version
+         FROM score_snapshots
+         WHERE ${inRange}
+         ORDER BY scored_at DESC
+         LIMIT $3`
+      : `SELECT * FROM (
+           SELECT DISTINCT ON (date_trunc('${bucket}', scored_at))
+                  scored_at, score, tier, components, reputation_source, scoring_version
+           FROM score_snapshots
+           WHERE ${inRange}
+           ORDER BY date_trunc('${bucket}', scored_at) DESC, scored_at DESC
+         ) b
+         ORDER BY scored_at DESC
+         LIMIT $3`;
+
+  const res = await pool.query<SnapshotRow>(sql, [agentId, interval, MAX_POINTS]);
+
+  return res.rows.reverse().map((r) => ({
+    t: new Date(r.scored_at).toISOString(),
+    score: r.score,
+    tier: r.tier,
+    components: r.components,
+    reputationSource: r.reputation_source,
+    scoringVersion: r.scoring_version,
+  }));
+}
@@ -0,0 +1,160 @@
+/**
+ * Per-tag reputation: peer reputation computed over only the reviews carrying a tag (tag1 or
+ * tag2, e.g. "code-review" or "trading"), with the same formula, reviewer weighting and
+ * review-age decay as the score's peer reputation component (decay applies for
+ * recency-aware versions; the inactivity penalty and completion decay do not, as they are
+ * not per tag). Stored in agent_tag_reputation by refreshTagReputation (cron) and served by
+ * /api/agents/:id/reputation and /api/agents?skill=.
+ */
+
+import {
+  componentMaxima,
+  DEFAULT_SCORING_VERSION,
+  scorePeerReputation,
+} from "@moltscore/scoring";
+import { pool } from "@/lib/db";
+import { loadTagRecencyReviews } from "@/services/recencyInputs";
+import { loadTagReviewerSignals } from "@/services/reviewerProfiles";
+
+const LOG = "[TagReputation]";
+
+/** Rows per INSERT statement. */
+const WRITE_BATCH_SIZE = 1000;
+
+const MAX_TAG_LENGTH = 64;
+
+export interface TagReputation {
+  tag: string;
+  feedbackCount: number;
+  avgValue: number;
+  reviewers: number;
+  effectiveReviewers: number;
+  /** Peer reputation points (out of the version's peer reputation maximum). */
+  points: number;
+  /** points scaled to 0–100. */
+  score: number;
+  scoringVersion: string;
+  updatedAt: string | null;
+}
+
+interface TagReputationRow {
+  agent_id: number;
+  tag: string;
+  feedback_count: number;
+  avg_value: number;
+  reviewers: number;
+  effective_reviewers: number;
+  points: number;
+  score: number;
+  scoring_version: string;
+  updated_at: Date | null;
+}
+
+/** Tags are matched case-insensitively; null for empty or overlong tags. */
+export function normalizeTag(raw: string | null | undefined): string | null {
+  const tag = (raw ?? "").trim().toLowerCase();
+  return tag && tag.length <= MAX_TAG_LENGTH ? tag : null;
+}
+
+function toTagReputation(row: TagReputationRow): TagReputation {
+  return {
+    tag: row.tag,
+    feedbackCount: row.feedback_count,
+    avgValue: row.avg_value,
+    reviewers: row.reviewers,
+    effectiveReviewers: row.effective_reviewers,
+    points: row.points,
+    score: row.score,
+    scoringVersion: row.scoring_version,
+    updatedAt: row.updated_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Recompute every agent's per-tag reputation from indexed reviews and replace the table's
+ * contents in one transaction. Review ages are measured from the start of the refresh.
+ */
+export async function refreshTagReputation(
+  version: string = DEFAULT_SCORING_VERSION
+): Promise<{ agents: number; rows: number }> {
+  const asOf = Math.floor(Date.now() / 1000);
+  const [signals, reviewsByAgent] = await Promise.all([loadTagReviewerSignals(), loadTagRecencyReviews()]);
+  const maxPoints = componentMaxima(version).peerReputation;
+
+  const rows: Omit<TagReputationRow, "updated_at">[] = [];
+  for (const [agentId, tags] of signals) {
+    for (const [tag, reviewers] of tags) {
+      const feedbackCount = reviewers.reduce((n, r) => n + r.reviews, 0);
+      const feedbackValue = reviewers.reduce((n, r) => n + r.valueSum, 0);
+      const recency = {
+        asOf,
+        lastActiveAt: null,
+        reviews: reviewsByAgent.get(agentId)?.get(tag) ?? [],
+        completions: [],
+      };
+      const peer = scorePeerReputation({ feedbackCount, feedbackValue, reviewers, recency }, version);
+      rows.push({
+        agent_id: agentId,
+        tag,
+        feedback_count: feedbackCount,
+        avg_value: feedbackCount > 0 ? feedbackValue / feedbackCount : 0,
+        reviewers: reviewers.length,
+        effective_reviewers: peer.reviewerWeighting?.effectiveReviewers ?? reviewers.length,
+        points: peer.points,
+        score: Math.round((peer.points / maxPoints) * 100),
+        scoring_version: version,
+      });
+    }
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query("DELETE FROM agent_tag_reputation");
+    for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+      const batch = rows.slice(i, i + WRITE_BATCH_SIZE);
+      await client.query(
+        `INSERT INTO agent_tag_reputation
+           (agent_id, tag, feedback_count, avg_value, reviewers, effective_reviewers, points, score, scoring_version)
+         SELECT * FROM unnest($1::int[], $2::text[], $3::int[], $4::float8[], $5::int[], $6::float8[], $7::int[], $8::int[], $9::text[])`,
+        [
+          batch.map((r) => r.agent_id),
+          batch.map((r) => r.tag),
+          batch.map((r) => r.feedback_count),
+          batch.map((r) => r.avg_value),
+          batch.map((r) => r.reviewers),
+          batch.map((r) => r.effective_reviewers),
+          batch.map((r) => r.points),
+          batch.map((r) => r.score),
+          batch.map((r) => r.scoring_version),
+        ]
+      );
+    }
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
+  }
+
+  console.info(LOG, `Stored ${rows.length} tag scores for ${signals.size} agents`);
+  return { agents: signals.size, rows: rows.length };
+}
+
+/** An agent's per-tag reputation, best score first; only `tag` when given. */
+export async function getAgentTagReputation(agentId: number, tag?: string): Promise<TagReputation[]> {
+  const res = await pool.query<TagReputationRow>(
+    `SELECT * FROM agent_tag_reputation
+     WHERE agent_id = $1 AND ($2::text IS NULL OR tag = $2)
+     ORDER BY score DESC, feedback_count DESC, tag`,
+    [agentId, tag ?? null]
+  );
+  return res.rows.map(toTagReputation);
+}
+
+/** Every agent's reputation for one tag, keyed by agentId. */
+export async function getTagReputationByAgent(tag: string): Promise<Map<number, TagReputation>> {
+  const res = await pool.query<TagReputationRow>(`SELECT * FROM agent_tag_reputation WHERE tag = $1`, [tag]);
+  return new Map(res.rows.map((r) => [r.agent_id, toTagReputation(r)]));
+}
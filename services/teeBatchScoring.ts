@@ -0,0 +1,114 @@
+/**
+ * Batch attestation: send every agent's stored ScoreInput to the EigenCompute TEE's
+ * POST /score/batch in chunks, verify each batch root signature, every inclusion proof and
+ * every result's own signatures (checkAttestationBundle), then store the signed results (with leaf and proof) in the attestation log. Batches whose
+ * root is not signed by an accepted TEE signer (services/teeSigner.ts) are dropped whole.
+ */
+
+import {
+  recoverScoreBatchSigner,
+  scoreInputToJson,
+  type ReputationSource,
+  type TypedScoreBatch,
+} from "@moltscore/scoring";
+import { TRUSTED_TEE_SIGNERS } from "@/config/teeSigners";
+import { checkAttestationBundle, verifyBatchInclusion, type BatchResult } from "@/lib/attestationVerifier";
+import { getAllAgentScoreInputs } from "@/services/mandateScoringEngine";
+import { recordAttestation, recordBatch } from "@/services/attestationStore";
+import { acceptTeeSigner, getRunningTeeSigner, type AcceptedSigner } from "@/services/teeSigner";
+
+const LOG = "[TeeBatchScoring]";
+
+const EIGENCOMPUTE_URL = process.env.EIGENCOMPUTE_URL || "";
+
+/** Inputs per POST /score/batch (the TEE caps this with MAX_BATCH_SIZE). */
+const DEFAULT_BATCH_SIZE = parseInt(process.env.TEE_BATCH_SIZE || "500", 10);
+
+const BATCH_TIMEOUT_MS = 120_000;
+
+export interface BatchAttestResult {
+  batches: number;
+  attested: number;
+  /** Results dropped because their proof, the root signature or its signer did not verify. */
+  rejected: number;
+  roots: string[];
+}
+
+interface BatchResponse {
+  success: boolean;
+  batch: TypedScoreBatch;
+  results: BatchResult[];
+}
+
+/** The key that signed the batch root when it is an accepted TEE signer, else null. */
+async function trustedBatchSigner(batch: TypedScoreBatch): Promise<AcceptedSigner | null> {
+  let recovered: string;
+  try {
+    recovered = recoverScoreBatchSigner(batch.message, batch.signature);
+  } catch {
+    return null;
+  }
+  return acceptTeeSigner(recovered, Number(batch.message.timestamp));
+}
+
+async function postBatch(inputs: ReturnType<typeof scoreInputToJson>[], version?: string): Promise<BatchResponse> {
+  const res = await fetch(`${EIGENCOMPUTE_URL}/score/batch`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({ inputs, version }),
+    signal: AbortSignal.timeout(BATCH_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `EigenCompute returned ${res.status}`);
+  }
+  return res.json();
+}
+
+export async function attestAllScores(
+  opts: { batchSize?: number; version?: string } = {}
+): Promise<BatchAttestResult> {
+  if (!EIGENCOMPUTE_URL) throw new Error("EIGENCOMPUTE_URL is not set");
+  const batchSize = Math.max(1, opts.batchSize ?? DEFAULT_BATCH_SIZE);
+
+  const all = await getAllAgentScoreInputs();
+  const sourceById = new Map<number, ReputationSource>(all.map((a) => [a.input.agentId, a.reputationSource]));
+  const result: BatchAttestResult = { batches: 0, attested: 0, rejected: 0, roots: [] };
+  const runningSigner = await getRunningTeeSigner();
+
+  for (let i = 0; i < all.length; i += batchSize) {
+    const chunk = all.slice(i, i + batchSize);
+    const data = await postBatch(chunk.map((a) => scoreInputToJson(a.input)), opts.version);
+
+    const signer = await trustedBatchSigner(data.batch);
+    if (!signer) {
+      result.rejected += data.results.length;
+      console.warn(LOG, `Batch root ${data.batch.message.root} not signed by a trusted TEE signer; dropped`);
+      continue;
+    }
+
+    await recordBatch(data.batch);
+    result.batches++;
+    result.roots.push(data.batch.message.root);
+
+    for (const r of data.results) {
+      const check = verifyBatchInclusion(r, data.batch, signer.address);
+      const bundle = checkAttestationBundle(r, TRUSTED_TEE_SIGNERS, { runningSigner });
+      if (!check.valid || bundle.status !== "valid") {
+        result.rejected++;
+        const problems = [...check.problems, ...bundle.problems];
+        console.warn(LOG, `agent ${r.score.agentId} rejected (${bundle.status}):`, problems.join(", "));
+        continue;
+      }
+      await recordAttestation(r, sourceById.get(r.score.agentId) ?? null, {
+        root: data.batch.message.root,
+        leaf: r.leaf,
+        proof: r.proof,
+      });
+      result.attested++;
+    }
+    console.info(LOG, `Batch ${result.batches}: ${data.results.length} agents, root ${data.batch.message.root}`);
+  }
+
+  return result;
+}
@@ -0,0 +1,61 @@
+/**
+ * Which TEE signatures the app's write paths (attestation log, batches, leaderboard
+ * snapshots) accept: a signer registered at the signed timestamp (config/teeSigners.ts), or
+ * the KMS wallet the configured EigenCompute service runs right now (from its /health), so
+ * an empty or lagging registry does not drop the production key's signatures. Dev
+ * random-wallet signers are never accepted.
+ */
+
+import { signerRecordAt, type SignerRecord } from "@moltscore/scoring";
+import { TRUSTED_TEE_SIGNERS } from "@/config/teeSigners";
+
+const LOG = "[TeeSigner]";
+
+const EIGENCOMPUTE_URL = process.env.EIGENCOMPUTE_URL || "";
+
+const HEALTH_TIMEOUT_MS = 5000;
+
+/** How long the running signer from /health is reused. */
+const RUNNING_SIGNER_TTL_MS = 5 * 60_000;
+
+export interface TeeHealth {
+  teeWallet?: string;
+  signer?: { address: string; mode: string; production: boolean };
+}
+
+export interface AcceptedSigner {
+  address: string;
+  /** Registry entry covering the signed timestamp; null for the unregistered running signer. */
+  record: SignerRecord | null;
+}
+
+let cached: { address: string | null; at: number } | null = null;
+
+export async function fetchTeeHealth(): Promise<TeeHealth> {
+  const res = await fetch(`${EIGENCOMPUTE_URL}/health`, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`EigenCompute /health returned ${res.status}`);
+  return (await res.json()) as TeeHealth;
+}
+
+/** Address of the service's KMS wallet; null when unreachable or running a dev wallet. */
+export async function getRunningTeeSigner(): Promise<string | null> {
+  if (cached && Date.now() - cached.at < RUNNING_SIGNER_TTL_MS) return cached.address;
+  if (!EIGENCOMPUTE_URL) return null;
+  try {
+    const health = await fetchTeeHealth();
+    const address = health.signer?.mode === "kms" ? health.signer.address : null;
+    cached = { address, at: Date.now() };
+    return address;
+  } catch (e) {
+    console.warn(LOG, "/health failed:", String(e).slice(0, 200));
+    return null;
+  }
+}
+
+/** Accept `address` as a TEE signer for a signature made at `timestamp` (unix seconds), or null. */
+export async function acceptTeeSigner(address: string, timestamp: number): Promise<AcceptedSigner | null> {
+  const record = Number.isFinite(timestamp) ? signerRecordAt(address, timestamp, TRUSTED_TEE_SIGNERS) : null;
+  if (record) return { address, record };
+  const running = await getRunningTeeSigner();
+  return running && running.toLowerCase() === address.toLowerCase() ? { address, record: null } : null;
+}
@@ -0,0 +1,175 @@
+/**
+ * Tier events: one row per promotion or demotion between consecutive scoring cycles.
+ * runScoringCycle compares each new score with the agent's previous snapshot
+ * (detectTierChange) and records the changes in tier_events; /api/agents/:id/tier-history
+ * serves them.
+ */
+
+import { tierRank } from "@moltscore/scoring";
+import { pool } from "@/lib/db";
+import type { SnapshotWrite } from "@/services/scoreHistory";
+
+/** Rows per INSERT statement. */
+const WRITE_BATCH_SIZE = 500;
+
+export type TierDirection = "promotion" | "demotion";
+
+export interface TierEventWrite {
+  agentId: number;
+  fromTier: string;
+  toTier: string;
+  direction: TierDirection;
+  scoreBefore: number;
+  scoreAfter: number;
+  /**
+   * What moved the score most in the direction of the change: "scoringVersion" when the
+   * version changed, else a component name, "inactivityPenalty", or "score" when no single
+   * term moved that way.
+   */
+  cause: string;
+  /** Per component (and inactivityPenalty, when it changed): points gained (+) or lost (−). */
+  componentDeltas: Record<string, number>;
+  previousVersion: string;
+  scoringVersion: string;
+}
+
+export interface TierEvent extends TierEventWrite {
+  id: number;
+  scoreDelta: number;
+  createdAt: string;
+}
+
+interface TierEventRow {
+  id: string;
+  agent_id: number;
+  from_tier: string;
+  to_tier: string;
+  direction: TierDirection;
+  score_before: number;
+  score_after: number;
+  score_delta: number;
+  cause: string;
+  component_deltas: Record<string, number>;
+  previous_version: string;
+  scoring_version: string;
+  created_at: Date;
+}
+
+/** Points taken off the component total (inactivity), as recorded in a snapshot. */
+function totalPenalty(s: SnapshotWrite): number {
+  const sum = Object.values(s.components).reduce((n, v) => n + v, 0);
+  return Math.max(0, Math.min(100, sum) - s.score);
+}
+
+/**
+ * The tier event between an agent's previous snapshot and its new score, or null when the
+ * tier did not change (or there is no previous snapshot). Direction follows the new
+ * version's ladder, or the score delta for tiers that ladder does not define.
+ */
+export function detectTierChange(prev: SnapshotWrite | undefined, next: SnapshotWrite): TierEventWrite | null {
+  if (!prev || prev.tier === next.tier) return null;
+
+  const fromRank = tierRank(prev.tier, next.scoringVersion);
+  const toRank = tierRank(next.tier, next.scoringVersion);
+  const direction: TierDirection =
+    fromRank !== null && toRank !== null
+      ? toRank < fromRank ? "promotion" : "demotion"
+      : next.score >= prev.score ? "promotion" : "demotion";
+
+  const componentDeltas: Record<string, number> = {};
+  for (const [k, v] of Object.entries(next.components)) {
+    componentDeltas[k] = v - (prev.components[k] ?? 0);
+  }
+  const penaltyDelta = totalPenalty(next) - totalPenalty(prev);
+  if (penaltyDelta !== 0) componentDeltas.inactivityPenalty = -penaltyDelta;
+
+  let cause = "score";
+  if (prev.scoringVersion !== next.scoringVersion) {
+    cause = "scoringVersion";
+  } else {
+    const sign = direction === "promotion" ? 1 : -1;
+    let best = 0;
+    for (const [k, d] of Object.entries(componentDeltas)) {
+      if (d * sign > best) {
+        best = d * sign;
+        cause = k;
+      }
+    }
+  }
+
+  return {
+    agentId: next.agentId,
+    fromTier: prev.tier,
+    toTier: next.tier,
+    direction,
+    scoreBefore: prev.score,
+    scoreAfter: next.score,
+    cause,
+    componentDeltas,
+    previousVersion: prev.scoringVersion,
+    scoringVersion: next.scoringVersion,
+  };
+}
+
+/** Append tier events in batches (one INSERT per batch). */
+export async function insertTierEvents(events: TierEventWrite[]): Promise<void> {
+  for (let i = 0; i < events.length; i += WRITE_BATCH_SIZE) {
+    const batch = events.slice(i, i + WRITE_BATCH_SIZE);
+    await pool.query(
+      `INSERT INTO tier_events
+         (agent_id, from_tier, to_tier, direction, score_before, score_after, score_delta, cause,
+          component_deltas, previous_version, scoring_version)
+       SELECT * FROM unnest($1::int[], $2::text[], $3::text[], $4::text[], $5::int[], $6::int[], $7::int[],
+                            $8::text[], $9::jsonb[], $10::text[], $11::text[])`,
+      [
+        batch.map((e) => e.agentId),
+        batch.map((e) => e.fromTier),
+        batch.map((e) => e.toTier),
+        batch.map((e) => e.direction),
+        batch.map((e) => e.scoreBefore),
+        batch.map((e) => e.scoreAfter),
+        batch.map((e) => e.scoreAfter - e.scoreBefore),
+        batch.map((e) => e.cause),
+        batch.map((e) => JSON.stringify(e.componentDeltas)),
+        batch.map((e) => e.previousVersion),
+        batch.map((e) => e.scoringVersion),
+      ]
+    );
+  }
+}
+
+/** One agent's tier events, newest first. */
+export async function getTierHistory(
+  agentId: number,
+  limit: number,
+  offset = 0
+): Promise<{ events: TierEvent[]; total: number }> {
+  const [countRes, rowsRes] = await Promise.all([
+    pool.query<{ c: number }>(`SELECT COUNT(*)::int AS c FROM tier_events WHERE agent_id = $1`, [agentId]),
+    pool.query<TierEventRow>(
+      `SELECT * FROM tier_events
+       WHERE agent_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2 OFFSET $3`,
+      [agentId, limit, offset]
+    ),
+  ]);
+  return {
+    total: countRes.rows[0]?.c ?? 0,
+    events: rowsRes.rows.map((r) => ({
+      id: Number(r.id),
+      agentId: r.agent_id,
+      fromTier: r.from_tier,
+      toTier: r.to_tier,
+      direction: r.direction,
+      scoreBefore: r.score_before,
+      scoreAfter: r.score_after,
+      scoreDelta: r.score_delta,
+      cause: r.cause,
+      componentDeltas: r.component_deltas,
+      previousVersion: r.previous_version,
+      scoringVersion: r.scoring_version,
+      createdAt: new Date(r.created_at).toISOString(),
+    })),
+  };
+}
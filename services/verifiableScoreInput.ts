@@ -2,100 +2,95 @@
  * Build ScoreInput for the EigenCompute TEE (POST /score).
  * Uses on-chain data first; when on-chain reputation is empty, falls back to
  * MoltLaunch API so the attested score is "on-chain + attested off-chain".
+ * Escrow fields come from the mandates indexed by services/mandateEscrow.ts, reviewer
+ * signals from services/reviewerProfiles.ts and recency timestamps from
+ * services/recencyInputs.ts (ages measured from the time the input is built).
+ *
+ * Sources are merged with the shared `resolveScoreInput`, the same rule the cron
+ * scoring engine uses, so the profile score and the attested score agree.
+ *
+ * On-chain reads are pinned to one block, which the TEE checks and signs. MoltLaunch and
+ * indexer data (escrow, reviewer signals) are current values and are not pinned.
  */
 
-import { ethers } from "ethers";
 import {
-  getIdentityContract,
-  readReputationSummary,
-  type ReputationSummary,
-} from "@/services/mandateContracts";
+  fetchOnchainSources,
+  resolveScoreInput,
+  resolveSourceBlock,
+  type ReputationSource,
+  type ScoreInput,
+  type SkippedReputationAdjustments,
+  type SourceBlock,
+} from "@moltscore/scoring";
+import { getProvider } from "@/services/mandateContracts";
+import { getAgentEscrowMetrics } from "@/services/mandateEscrow";
+import { loadReviewerSignals } from "@/services/reviewerProfiles";
+import { loadRecencyInputs } from "@/services/recencyInputs";
 import { fetchAgentById } from "@/lib/moltlaunchApi";
 
-export interface ScoreInputForTee {
-  agentId: number;
-  feedbackCount: number;
-  feedbackValue: number;
-  completedMandates: number;
-  totalMandates: number;
-  totalEscrowWei: string; // JSON-safe (bigint as string)
-  hasMetadata: boolean;
-  hasSkills: boolean;
-  ownerVerified: boolean;
-}
+export type { ReputationSource };
 
-export type ReputationSource = "onchain" | "moltlaunch";
+const LOG = "[VerifiableScoreInput]";
 
 export interface BuildScoreInputResult {
-  input: ScoreInputForTee;
+  input: ScoreInput;
   reputationSource: ReputationSource;
+  /** Reviewer weighting / review decay not applied because reputation came from MoltLaunch. */
+  skippedAdjustments?: SkippedReputationAdjustments;
+  /** Block the on-chain reads were pinned to; null without BASE_RPC_URL. */
+  block: SourceBlock | null;
 }
 
 /**
  * Build ScoreInput for the given agent.
- * - Identity: always from on-chain (Identity registry).
- * - Reputation & tasks: when MoltLaunch data is available, use it so the TEE score aligns with
- *   what the page shows (MoltLaunch rep, completed/active tasks). Otherwise use on-chain rep only.
+ * - Identity & on-chain reputation: read with the TEE's own fetchOnchainSources.
+ * - Reputation & tasks: MoltLaunch reputation wins when present; indexed escrow mandates
+ *   take precedence over MoltLaunch task counts (see resolveScoreInput).
+ * - `blockTag` (number, latest, safe or finalized; default latest) is resolved once and
+ *   every contract call reads at that block.
  */
 export async function buildScoreInputForTee(
-  agentId: number
+  agentId: number,
+  blockTag: number | string = "latest"
 ): Promise<BuildScoreInputResult> {
-  let feedbackCount = 0;
-  let feedbackValue = 0;
-  let reputationSource: ReputationSource = "onchain";
-  let completedMandates = 0;
-  let totalMandates = 0;
-
-  const onChainRep: ReputationSummary | null = await readReputationSummary(agentId);
-  const moltAgent = await fetchAgentById(agentId);
-
-  if (moltAgent) {
-    completedMandates = moltAgent.completedTasks ?? 0;
-    totalMandates = completedMandates + (moltAgent.activeTasks ?? 0);
-    if (moltAgent.reputation && (moltAgent.reputation.count > 0 || moltAgent.reputation.summaryValue > 0)) {
-      feedbackCount = moltAgent.reputation.count ?? 0;
-      feedbackValue = moltAgent.reputation.summaryValue ?? 0;
-      reputationSource = "moltlaunch";
-    }
-  }
-  if (reputationSource !== "moltlaunch" && onChainRep && onChainRep.count > 0) {
-    feedbackCount = onChainRep.count;
-    feedbackValue = Number(onChainRep.summaryValue);
-    reputationSource = "onchain";
-  }
-
-  let hasMetadata = false;
-  let hasSkills = false;
-  let ownerVerified = false;
-
-  const identity = getIdentityContract();
-  if (identity) {
-    try {
-      const [uri, owner] = await Promise.all([
-        identity.tokenURI(agentId).catch(() => ""),
-        identity.ownerOf(agentId).catch(() => ethers.ZeroAddress),
-      ]);
-      hasMetadata = Boolean(uri && uri.length > 0);
-      if (uri && (uri.includes("skills") || uri.includes("endpoint"))) {
-        hasSkills = true;
-      }
-      ownerVerified = Boolean(owner && owner !== ethers.ZeroAddress);
-    } catch {
-      // Agent may not exist on-chain
-    }
+  const provider = getProvider();
+  if (!provider && blockTag !== "latest") {
+    throw new Error("BASE_RPC_URL not set — cannot pin score input to a block");
   }
+  const block = provider ? await resolveSourceBlock(provider, blockTag) : null;
 
-  const input: ScoreInputForTee = {
-    agentId,
-    feedbackCount,
-    feedbackValue,
-    completedMandates,
-    totalMandates,
-    totalEscrowWei: "0",
-    hasMetadata,
-    hasSkills,
-    ownerVerified,
-  };
+  const [onchain, moltAgent, escrow, reviewers, recency] = await Promise.all([
+    provider && block
+      ? fetchOnchainSources(provider, agentId, block.number)
+      : { agentId, identity: { agentURI: null, owner: null }, onchainReputation: null },
+    fetchAgentById(agentId),
+    getAgentEscrowMetrics(agentId),
+    loadReviewerSignals([agentId])
+      .then((m) => m.get(agentId) ?? null)
+      .catch((e) => {
+        console.warn(LOG, `loadReviewerSignals(${agentId}) failed:`, String(e).slice(0, 200));
+        return null;
+      }),
+    loadRecencyInputs(Math.floor(Date.now() / 1000), [agentId])
+      .then((m) => m.get(agentId) ?? null)
+      .catch((e) => {
+        console.warn(LOG, `loadRecencyInputs(${agentId}) failed:`, String(e).slice(0, 200));
+        return null;
+      }),
+  ]);
 
-  return { input, reputationSource };
+  const resolved = resolveScoreInput({
+    ...onchain,
+    moltlaunch: moltAgent
+      ? {
+          reputation: moltAgent.reputation ?? null,
+          completedTasks: moltAgent.completedTasks ?? 0,
+          activeTasks: moltAgent.activeTasks ?? 0,
+        }
+      : null,
+    escrow,
+    reviewers,
+    recency,
+  });
+  return { ...resolved, block };
 }
@@ -0,0 +1,80 @@
+/**
+ * detectAnomalies (services/agentAlerts.ts): each alert at and just below its
+ * ANOMALY_THRESHOLDS boundary, and no alerts without a previous sync.
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectAnomalies, type AgentMarketMetrics } from "@/services/agentAlerts";
+
+const PREV: AgentMarketMetrics = {
+  repCount: 10,
+  repSummaryValue: 80,
+  marketCapUsd: 100_000,
+  volume24hUsd: 4_000,
+  holders: 100,
+};
+
+function kinds(next: Partial<AgentMarketMetrics>, prev: AgentMarketMetrics = PREV): string[] {
+  return detectAnomalies(1, prev, { ...prev, ...next }).map((a) => a.kind);
+}
+
+describe("detectAnomalies", () => {
+  it("flags nothing on the first sync or without changes", () => {
+    assert.deepEqual(detectAnomalies(1, undefined, PREV), []);
+    assert.deepEqual(kinds({}), []);
+  });
+
+  it("flags review bursts by count and relative size", () => {
+    assert.deepEqual(kinds({ repCount: 15 }), ["review_burst"]);
+    assert.deepEqual(kinds({ repCount: 14 }), []);
+    // 5 new reviews on top of 20 is under half the previous count
+    assert.deepEqual(kinds({ repCount: 25 }, { ...PREV, repCount: 20 }), []);
+  });
+
+  it("flags reputation drops but not rises", () => {
+    const [alert] = detectAnomalies(1, PREV, { ...PREV, repSummaryValue: 65 });
+    assert.deepEqual(alert, {
+      agentId: 1,
+      kind: "rep_drop",
+      metric: "repSummaryValue",
+      previousValue: 80,
+      currentValue: 65,
+      detail: "Reputation fell 15 points (80 → 65)",
+    });
+    assert.deepEqual(kinds({ repSummaryValue: 66 }), []);
+    assert.deepEqual(kinds({ repSummaryValue: 100 }), []);
+  });
+
+  it("flags holder spikes that double and add enough holders", () => {
+    assert.deepEqual(kinds({ holders: 200 }), ["holder_spike"]);
+    assert.deepEqual(kinds({ holders: 199 }), []);
+    assert.deepEqual(kinds({ holders: 40 }, { ...PREV, holders: 20 }), []);
+    assert.deepEqual(kinds({ holders: 500 }, { ...PREV, holders: 0 }), []);
+  });
+
+  it("flags volume spikes above the minimum", () => {
+    assert.deepEqual(kinds({ volume24hUsd: 20_000 }), ["volume_spike"]);
+    assert.deepEqual(kinds({ volume24hUsd: 19_999 }), []);
+    assert.deepEqual(kinds({ volume24hUsd: 9_000 }, { ...PREV, volume24hUsd: 1_000 }), []);
+  });
+
+  it("flags market cap swings either way", () => {
+    const [rise] = detectAnomalies(1, PREV, { ...PREV, marketCapUsd: 150_000 });
+    assert.equal(rise.detail, "Market cap rose 50% ($100,000 → $150,000)");
+    assert.deepEqual(kinds({ marketCapUsd: 50_000 }), ["market_cap_swing"]);
+    assert.deepEqual(kinds({ marketCapUsd: 149_999 }), []);
+    // Small caps swing freely
+    assert.deepEqual(kinds({ marketCapUsd: 9_000 }, { ...PREV, marketCapUsd: 1_000 }), []);
+  });
+
+  it("reports every anomaly of one sync", () => {
+    assert.deepEqual(kinds({ repCount: 30, repSummaryValue: 50, holders: 400 }), [
+      "review_burst",
+      "rep_drop",
+      "holder_spike",
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * EIP-712 ScoreAttestation (@moltscore/scoring attestation.ts): the struct a Solidity
+ * verifier rebuilds, the digest it hashes to, and signer recovery under the canonical
+ * domain and types.
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import {
+  attestationDomain,
+  buildScoreAttestation,
+  claimFromTypedAttestation,
+  computeScore,
+  recoverScoreAttestationSigner,
+  SCORE_ATTESTATION_TYPES,
+  signScoreAttestation,
+  type ScoreInput,
+} from "@moltscore/scoring";
+
+const SIGNER = new ethers.Wallet("0x" + "22".repeat(32));
+
+const INPUT: ScoreInput = {
+  agentId: 42,
+  feedbackCount: 6,
+  feedbackValue: 510,
+  completedMandates: 4,
+  totalMandates: 5,
+  totalEscrowWei: BigInt("250000000000000000"),
+  hasMetadata: true,
+  hasSkills: true,
+  ownerVerified: true,
+};
+
+const BLOCK = {
+  number: 30_000_000,
+  hash: "0x97a9ad64b371cb7a709cb31b8baa5159bc4d7556349703c6464e800f815a1ea5",
+};
+
+describe("ScoreAttestation", () => {
+  const score = computeScore(INPUT, "1.4.0");
+
+  it("encodes the struct Solidity verifiers rebuild", () => {
+    assert.equal(
+      ethers.TypedDataEncoder.from(SCORE_ATTESTATION_TYPES).encodeType("ScoreAttestation"),
+      "ScoreAttestation(uint256 agentId,uint8 score,uint8 peerReputation,uint8 taskCompletion," +
+        "uint8 economicActivity,uint8 identityCompleteness,bytes32 inputHash,string version," +
+        "uint64 timestamp,string decay,uint64 blockNumber,bytes32 blockHash,uint256 chainId)"
+    );
+    assert.deepEqual(attestationDomain(8453), { name: "MoltScore", version: "1", chainId: 8453 });
+  });
+
+  it("signs a digest that ecrecover resolves to the signer", async () => {
+    const signed = await signScoreAttestation(SIGNER, score, 8453, BLOCK);
+    assert.deepEqual(signed.message, buildScoreAttestation(score, 8453, BLOCK));
+    assert.equal(signed.message.blockNumber, BLOCK.number);
+    assert.equal(signed.message.blockHash, BLOCK.hash);
+
+    const digest = ethers.TypedDataEncoder.hash(attestationDomain(8453), SCORE_ATTESTATION_TYPES, signed.message);
+    assert.equal(ethers.recoverAddress(digest, signed.signature), SIGNER.address);
+    assert.equal(recoverScoreAttestationSigner(signed.message, signed.signature), SIGNER.address);
+  });
+
+  it("zeroes the source block for unpinned inputs", () => {
+    const value = buildScoreAttestation(score);
+    assert.equal(value.blockNumber, 0);
+    assert.equal(value.blockHash, ethers.ZeroHash);
+    assert.equal(value.chainId, 8453);
+  });
+
+  it("recovers a different address once any signed field changes", async () => {
+    const signed = await signScoreAttestation(SIGNER, score, 8453, BLOCK);
+    for (const change of [
+      { score: signed.message.score + 1 },
+      { inputHash: ethers.ZeroHash },
+      { version: "1.3.0" },
+      { decay: "{}" },
+      { blockNumber: BLOCK.number + 1 },
+      { chainId: 1 },
+    ]) {
+      const recovered = recoverScoreAttestationSigner({ ...signed.message, ...change }, signed.signature);
+      assert.notEqual(recovered, SIGNER.address, JSON.stringify(change));
+    }
+  });
+
+  it("ignores a domain other than the canonical one", async () => {
+    const message = buildScoreAttestation(score, 8453, BLOCK);
+    const signature = await SIGNER.signTypedData(
+      { ...attestationDomain(8453), name: "NotMoltScore" },
+      SCORE_ATTESTATION_TYPES,
+      message
+    );
+    assert.notEqual(recoverScoreAttestationSigner(message, signature), SIGNER.address);
+  });
+
+  it("reads the signed claim back from the typed message", async () => {
+    const signed = await signScoreAttestation(SIGNER, score, 8453, BLOCK);
+    const claim = claimFromTypedAttestation(signed.message);
+    assert.equal(claim.agentId, score.agentId);
+    assert.equal(claim.score, score.score);
+    assert.deepEqual(claim.components, score.components);
+    assert.equal(claim.version, "1.4.0");
+    assert.equal(claim.timestamp, score.timestamp);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * checkAttestationBundle (lib/attestationVerifier.ts) on bundles signed the way the TEE
+ * signs them (eigencompute/src/server.ts signScore): registry and validity-window lookups,
+ * the running KMS signer, dev-wallet flags and tampered fields.
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import {
+  computeScore,
+  encodeDecay,
+  hashScoreInput,
+  scoreOutputToJson,
+  signScoreAttestation,
+  type ScoreInput,
+  type SignerRecord,
+  type SourceBlock,
+} from "@moltscore/scoring";
+import { checkAttestationBundle, type AttestationBundle } from "@/lib/attestationVerifier";
+
+const TEE = new ethers.Wallet("0x" + "33".repeat(32));
+const OTHER = new ethers.Wallet("0x" + "44".repeat(32));
+
+const INPUT: ScoreInput = {
+  agentId: 7,
+  feedbackCount: 3,
+  feedbackValue: 255,
+  completedMandates: 2,
+  totalMandates: 3,
+  totalEscrowWei: BigInt("50000000000000000"),
+  hasMetadata: true,
+  hasSkills: false,
+  ownerVerified: true,
+};
+
+const BLOCK: SourceBlock = {
+  number: 30_000_000,
+  hash: "0x97a9ad64b371cb7a709cb31b8baa5159bc4d7556349703c6464e800f815a1ea5",
+};
+
+function record(address: string, validFrom: number, validUntil: number | null = null): SignerRecord {
+  return { address, label: "test", environment: "production", validFrom, validUntil, scoringVersions: ["1.4.0"] };
+}
+
+async function signBundle(
+  opts: { wallet?: ethers.Wallet; dev?: boolean; block?: SourceBlock | null } = {}
+): Promise<AttestationBundle> {
+  const wallet = opts.wallet ?? TEE;
+  const block = opts.block === undefined ? BLOCK : opts.block;
+  const score = computeScore(INPUT, "1.4.0");
+  const message = JSON.stringify({
+    agentId: score.agentId,
+    score: score.score,
+    components: score.components,
+    inputHash: hashScoreInput(score.input),
+    timestamp: score.timestamp,
+    version: score.version,
+    ...(score.recency ? { decay: encodeDecay(score.recency) } : {}),
+    ...(block ? { block } : {}),
+    ...(opts.dev ? { environment: "development" } : {}),
+  });
+  return {
+    score: scoreOutputToJson(score),
+    attestation: {
+      signer: wallet.address,
+      signature: await wallet.signMessage(message),
+      message,
+      timestamp: score.timestamp,
+      production: !opts.dev,
+    },
+    eip712: await signScoreAttestation(wallet, score, 8453, block),
+    block,
+  };
+}
+
+describe("checkAttestationBundle", () => {
+  it("accepts an intact bundle from a registered signer", async () => {
+    const bundle = await signBundle();
+    const check = checkAttestationBundle(bundle, [record(TEE.address, 0)]);
+    assert.equal(check.status, "valid");
+    assert.deepEqual(check.problems, []);
+    assert.equal(check.recoveredAddress, TEE.address);
+    assert.equal(check.inputBound, true);
+    assert.equal(check.eip712Checked, true);
+    assert.deepEqual(check.sourceBlock, BLOCK);
+    assert.equal(check.production, true);
+  });
+
+  it("reports an unregistered signer unless it is the running TEE signer", async () => {
+    const bundle = await signBundle();
+    assert.equal(checkAttestationBundle(bundle, []).status, "unknown_signer");
+
+    const running = checkAttestationBundle(bundle, [], { runningSigner: TEE.address.toLowerCase() });
+    assert.equal(running.status, "valid");
+    assert.equal(running.signerRecord, null);
+    assert.equal(running.production, false);
+  });
+
+  it("checks the validity window against the signed timestamp, not the envelope", async () => {
+    const bundle = await signBundle();
+    const signedAt = bundle.score.timestamp;
+    const expired = [record(TEE.address, signedAt - 100, signedAt)];
+    assert.equal(checkAttestationBundle(bundle, expired).status, "unknown_signer");
+
+    const backdated = { ...bundle, attestation: { ...bundle.attestation, timestamp: signedAt - 50 } };
+    assert.equal(checkAttestationBundle(backdated, expired).status, "unknown_signer");
+    assert.equal(checkAttestationBundle(bundle, [record(TEE.address, signedAt)]).status, "valid");
+  });
+
+  it("never treats a dev-wallet attestation as production or as the running signer", async () => {
+    const bundle = await signBundle({ dev: true });
+    const registered = checkAttestationBundle(bundle, [record(TEE.address, 0)]);
+    assert.equal(registered.status, "valid");
+    assert.equal(registered.production, false);
+    assert.equal(checkAttestationBundle(bundle, [], { runningSigner: TEE.address }).status, "unknown_signer");
+
+    // Clearing the unsigned envelope flag does not help: the signed message says development.
+    const relabeled = { ...bundle, attestation: { ...bundle.attestation, production: true } };
+    assert.equal(checkAttestationBundle(relabeled, [record(TEE.address, 0)]).production, false);
+  });
+
+  it("flags a score or input that differs from what was signed", async () => {
+    const bundle = await signBundle();
+    const signers = [record(TEE.address, 0)];
+
+    const rescored = { ...bundle, score: { ...bundle.score, score: bundle.score.score + 1 } };
+    const check = checkAttestationBundle(rescored, signers);
+    assert.equal(check.status, "tampered");
+    assert.ok(check.problems.includes("score"));
+    assert.ok(check.problems.includes("eip712 score"));
+
+    const reinput = { ...bundle, score: { ...bundle.score, input: { ...bundle.score.input, feedbackCount: 30 } } };
+    assert.ok(checkAttestationBundle(reinput, signers).problems.includes("inputHash"));
+
+    const moved = { ...bundle, block: { ...BLOCK, number: BLOCK.number + 1 } };
+    const movedCheck = checkAttestationBundle(moved, signers);
+    assert.ok(movedCheck.problems.includes("block"));
+    assert.ok(movedCheck.problems.includes("eip712 block"));
+  });
+
+  it("flags signatures that do not recover to the claimed signer", async () => {
+    const bundle = await signBundle();
+    const other = await signBundle({ wallet: OTHER });
+    const signers = [record(TEE.address, 0), record(OTHER.address, 0)];
+
+    const swapped = { ...bundle, attestation: { ...bundle.attestation, signature: other.attestation.signature } };
+    assert.ok(checkAttestationBundle(swapped, signers).problems.includes("signature does not match signer"));
+
+    const mixed = { ...bundle, eip712: other.eip712 };
+    const check = checkAttestationBundle(mixed, signers);
+    assert.equal(check.status, "tampered");
+    assert.ok(check.problems.includes("eip712 signer"));
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Score confidence (@moltscore/scoring confidence.ts): Wilson intervals against reference
+ * values, the score interval built from them and the provisional threshold.
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  computeScore,
+  PROVISIONAL_MAX_WIDTH,
+  scoreConfidence,
+  wilsonInterval,
+  type ScoreInput,
+} from "@moltscore/scoring";
+
+function near(actual: number, expected: number, tolerance = 1e-4): void {
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} is not ${expected}`);
+}
+
+describe("wilsonInterval", () => {
+  it("matches reference 95% intervals", () => {
+    const half = wilsonInterval(0.5, 10);
+    near(half.low, 0.2366);
+    near(half.high, 0.7634);
+
+    const all = wilsonInterval(1, 10);
+    near(all.low, 0.7225);
+    assert.equal(all.high, 1);
+
+    const none = wilsonInterval(0, 10);
+    assert.equal(none.low, 0);
+    near(none.high, 0.2775);
+  });
+
+  it("narrows as the sample grows and spans everything without samples", () => {
+    const small = wilsonInterval(0.8, 5);
+    const large = wilsonInterval(0.8, 500);
+    assert.ok(large.high - large.low < small.high - small.low);
+    assert.ok(large.low < 0.8 && large.high > 0.8);
+    assert.deepEqual(wilsonInterval(0.8, 0), { low: 0, high: 1 });
+  });
+
+  it("accepts fractional sample sizes", () => {
+    const w = wilsonInterval(0.9, 2.5);
+    assert.ok(w.low > wilsonInterval(0.9, 2).low);
+    assert.ok(w.low < wilsonInterval(0.9, 3).low);
+  });
+});
+
+describe("scoreConfidence", () => {
+  it("moves the estimated terms to their bounds and keeps the rest fixed", () => {
+    const reviews = { p: 0.9, n: 40, points: 25 };
+    const mandates = { p: 1, n: 40, points: 20 };
+    const c = scoreConfidence(70, { reviews, mandates });
+    const r = wilsonInterval(0.9, 40);
+    const m = wilsonInterval(1, 40);
+    assert.equal(c.low, Math.round(70 - (0.9 - r.low) * 25 - (1 - m.low) * 20));
+    assert.equal(c.high, Math.round(70 + (r.high - 0.9) * 25));
+    assert.equal(c.provisional, false);
+    assert.equal(c.level, Math.round((1 - (c.high - c.low) / 100) * 100) / 100);
+  });
+
+  it("marks scores with little evidence provisional", () => {
+    const c = scoreConfidence(40, { reviews: { p: 1, n: 1, points: 25 }, mandates: { p: 1, n: 1, points: 20 } });
+    assert.ok(c.high - c.low > PROVISIONAL_MAX_WIDTH);
+    assert.equal(c.provisional, true);
+  });
+
+  it("clamps the interval to 0–100", () => {
+    const c = scoreConfidence(5, { reviews: { p: 0.5, n: 1, points: 25 }, mandates: { p: 0.5, n: 1, points: 20 } });
+    assert.equal(c.low, 0);
+    assert.ok(c.high <= 100);
+  });
+
+  it("comes with every computed score", () => {
+    const input: ScoreInput = {
+      agentId: 3,
+      feedbackCount: 0,
+      feedbackValue: 0,
+      completedMandates: 0,
+      totalMandates: 0,
+      totalEscrowWei: BigInt(0),
+      hasMetadata: true,
+      hasSkills: true,
+      ownerVerified: true,
+    };
+    const out = computeScore(input, "1.0.0");
+    assert.equal(out.confidence?.reviews, 0);
+    assert.equal(out.confidence?.mandates, 0);
+    assert.equal(out.confidence?.provisional, true);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Pure parts of services/mandateEscrow.ts: grouping escrow logs by mandate, the status
+ * transitions recorded from them, and which address each agent's escrow mandates are
+ * attributed to.
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ethers } from "ethers";
+import { MandateStatus } from "@/services/mandateContracts";
+import { attributeMandateAddresses, extractMandateIds, statusTransitions } from "@/services/mandateEscrow";
+
+const OWNER = "0x00000000000000000000000000000000000000AA";
+const WALLET_1 = "0x0000000000000000000000000000000000000001";
+const WALLET_2 = "0x0000000000000000000000000000000000000002";
+
+const MANDATE_A = "0x" + "a1".repeat(32);
+const MANDATE_B = "0x" + "b2".repeat(32);
+const EVENT = "0x" + "ee".repeat(32);
+
+function log(mandateTopic: string | undefined, blockNumber: number, index: number): ethers.Log {
+  return {
+    topics: mandateTopic ? [EVENT, mandateTopic] : [EVENT],
+    blockNumber,
+    index,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+  } as unknown as ethers.Log;
+}
+
+function sighting(blockNumber: number, logIndex = 0) {
+  return { blockNumber, txHash: `0x${blockNumber.toString(16).padStart(64, "0")}`, logIndex };
+}
+
+describe("extractMandateIds", () => {
+  it("groups logs by mandate ID in chain order and skips logs without one", () => {
+    const ids = extractMandateIds([
+      log(MANDATE_A, 12, 0),
+      log(MANDATE_B.toUpperCase().replace("0X", "0x"), 11, 3),
+      log(MANDATE_A, 11, 5),
+      log(MANDATE_A, 11, 1),
+      log(undefined, 11, 2),
+      log("0x1234", 11, 4),
+    ]);
+    assert.deepEqual([...ids.keys()].sort(), [MANDATE_A, MANDATE_B].sort());
+    assert.deepEqual(ids.get(MANDATE_A), [sighting(11, 1), sighting(11, 5), sighting(12, 0)]);
+    assert.deepEqual(ids.get(MANDATE_B), [sighting(11, 3)]);
+  });
+});
+
+describe("statusTransitions", () => {
+  it("records each change from the last stored status", () => {
+    const transitions = statusTransitions(MandateStatus.Pending, [
+      { ...sighting(10), status: MandateStatus.Quoted },
+      { ...sighting(11), status: MandateStatus.Submitted },
+      { ...sighting(12), status: MandateStatus.Completed },
+    ]);
+    assert.deepEqual(
+      transitions.map((t) => [t.fromStatus, t.toStatus, t.blockNumber]),
+      [
+        [MandateStatus.Pending, MandateStatus.Quoted, 10],
+        [MandateStatus.Quoted, MandateStatus.Submitted, 11],
+        [MandateStatus.Submitted, MandateStatus.Completed, 12],
+      ]
+    );
+  });
+
+  it("starts a new mandate from no status", () => {
+    const [first] = statusTransitions(null, [{ ...sighting(10), status: MandateStatus.Pending }]);
+    assert.equal(first.fromStatus, null);
+    assert.equal(first.toStatus, MandateStatus.Pending);
+  });
+
+  it("skips unknown statuses and repeats", () => {
+    const transitions = statusTransitions(MandateStatus.Submitted, [
+      { ...sighting(10), status: MandateStatus.Submitted },
+      { ...sighting(11), status: null },
+      { ...sighting(12), status: MandateStatus.Disputed },
+      { ...sighting(12, 1), status: MandateStatus.Disputed },
+    ]);
+    assert.deepEqual(transitions, [
+      { ...sighting(12), fromStatus: MandateStatus.Submitted, toStatus: MandateStatus.Disputed },
+    ]);
+  });
+});
+
+describe("attributeMandateAddresses", () => {
+  it("matches agents that share an owner on their own wallets only", () => {
+    const byAgent = attributeMandateAddresses([
+      { agent_id: 1, owner_address: OWNER, wallet_address: WALLET_1 },
+      { agent_id: 2, owner_address: OWNER, wallet_address: WALLET_2 },
+    ]);
+    assert.deepEqual(
+      byAgent,
+      new Map([
+        [1, WALLET_1.toLowerCase()],
+        [2, WALLET_2.toLowerCase()],
+      ])
+    );
+  });
+
+  it("gives a shared owner address to one wallet-less agent only", () => {
+    const byAgent = attributeMandateAddresses([
+      { agent_id: 7, owner_address: OWNER, wallet_address: null },
+      { agent_id: 3, owner_address: OWNER, wallet_address: null },
+    ]);
+    assert.deepEqual(byAgent, new Map([[3, OWNER.toLowerCase()]]));
+  });
+
+  it("prefers the agent whose own wallet the address is", () => {
+    const byAgent = attributeMandateAddresses([
+      { agent_id: 1, owner_address: OWNER, wallet_address: null },
+      { agent_id: 2, owner_address: WALLET_2, wallet_address: OWNER },
+    ]);
+    assert.deepEqual(byAgent, new Map([[2, OWNER.toLowerCase()]]));
+  });
+
+  it("skips agents without any address", () => {
+    assert.equal(attributeMandateAddresses([{ agent_id: 1, owner_address: null, wallet_address: null }]).size, 0);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Merkle trees behind batch and leaderboard attestations (@moltscore/scoring merkle.ts) and
+ * the signed batch root: every leaf proves into the root, pairs hash like OpenZeppelin's
+ * MerkleProof, and tampered leaves, proofs or batch fields fail.
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import {
+  buildMerkleTree,
+  computeScore,
+  getMerkleProof,
+  merkleLeaf,
+  recoverScoreBatchSigner,
+  scoreLeaf,
+  signScoreBatch,
+  verifyMerkleProof,
+  type ScoreInput,
+} from "@moltscore/scoring";
+
+const SIGNER = new ethers.Wallet("0x" + "11".repeat(32));
+
+function leaves(n: number): string[] {
+  return Array.from({ length: n }, (_, i) => merkleLeaf(["uint256"], [i + 1]));
+}
+
+function input(agentId: number): ScoreInput {
+  return {
+    agentId,
+    feedbackCount: agentId,
+    feedbackValue: agentId * 80,
+    completedMandates: agentId,
+    totalMandates: agentId + 1,
+    totalEscrowWei: BigInt(agentId) * BigInt("100000000000000000"),
+    hasMetadata: true,
+    hasSkills: agentId % 2 === 0,
+    ownerVerified: true,
+  };
+}
+
+describe("Merkle tree", () => {
+  it("proves every leaf for odd and even tree sizes", () => {
+    for (let n = 1; n <= 9; n++) {
+      const tree = buildMerkleTree(leaves(n));
+      tree.layers[0].forEach((leaf, i) => {
+        assert.ok(verifyMerkleProof(leaf, getMerkleProof(tree, i), tree.root), `leaf ${i} of ${n}`);
+      });
+    }
+  });
+
+  it("uses the leaf itself as the root of a one-leaf tree", () => {
+    const [leaf] = leaves(1);
+    const tree = buildMerkleTree([leaf]);
+    assert.equal(tree.root, leaf);
+    assert.deepEqual(getMerkleProof(tree, 0), []);
+  });
+
+  it("hashes pairs in sorted order like OpenZeppelin MerkleProof", () => {
+    const [a, b] = leaves(2);
+    const [lo, hi] = a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+    const expected = ethers.keccak256(ethers.concat([lo, hi]));
+    assert.equal(buildMerkleTree([a, b]).root, expected);
+    assert.equal(buildMerkleTree([b, a]).root, expected);
+  });
+
+  it("carries an odd last node up unchanged", () => {
+    const [a, b, c] = leaves(3);
+    const tree = buildMerkleTree([a, b, c]);
+    assert.deepEqual(tree.layers[1], [buildMerkleTree([a, b]).root, c]);
+    assert.deepEqual(getMerkleProof(tree, 2), [tree.layers[1][0]]);
+  });
+
+  it("rejects a foreign leaf or a tampered proof", () => {
+    const tree = buildMerkleTree(leaves(5));
+    const proof = getMerkleProof(tree, 1);
+    assert.equal(verifyMerkleProof(merkleLeaf(["uint256"], [99]), proof, tree.root), false);
+    assert.equal(verifyMerkleProof(tree.layers[0][1], [ethers.ZeroHash, ...proof.slice(1)], tree.root), false);
+    assert.equal(verifyMerkleProof(tree.layers[0][1], proof.slice(1), tree.root), false);
+  });
+
+  it("rejects empty trees and out-of-range indexes", () => {
+    assert.throws(() => buildMerkleTree([]));
+    const tree = buildMerkleTree(leaves(3));
+    assert.throws(() => getMerkleProof(tree, 3));
+    assert.throws(() => getMerkleProof(tree, -1));
+  });
+});
+
+describe("Score batch", () => {
+  const scores = [1, 2, 3].map((id) => computeScore(input(id), "1.4.0"));
+  const tree = buildMerkleTree(scores.map(scoreLeaf));
+
+  it("commits each score leaf to the batch root", () => {
+    scores.forEach((score, i) => {
+      assert.ok(verifyMerkleProof(scoreLeaf(score), getMerkleProof(tree, i), tree.root));
+    });
+    const altered = { ...scores[0], score: scores[0].score + 1 };
+    assert.equal(verifyMerkleProof(scoreLeaf(altered), getMerkleProof(tree, 0), tree.root), false);
+  });
+
+  it("recovers the batch signer only for the signed root and chain", async () => {
+    const value = { root: tree.root, count: scores.length, version: "1.4.0", timestamp: 1_700_000_000, chainId: 8453 };
+    const batch = await signScoreBatch(SIGNER, value);
+    assert.equal(batch.signer, SIGNER.address);
+    assert.equal(recoverScoreBatchSigner(value, batch.signature), SIGNER.address);
+    assert.notEqual(recoverScoreBatchSigner({ ...value, count: 4 }, batch.signature), SIGNER.address);
+    assert.notEqual(recoverScoreBatchSigner({ ...value, chainId: 1 }, batch.signature), SIGNER.address);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Recency-aware scoring (@moltscore/scoring recency.ts, v1.3.0 on): review and completion
+ * decay, idle days, the inactivity penalty and the signed decay string. Every age is taken
+ * from asOf, so the results do not depend on the clock.
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  computeScore,
+  decayedCompletions,
+  decayFactor,
+  encodeDecay,
+  getScoringVersion,
+  idleDays,
+  inactivityPenalty,
+  reviewDecay,
+  type RecencyInput,
+  type RecencyParams,
+  type ScoreInput,
+} from "@moltscore/scoring";
+
+const DAY = 86_400;
+const AS_OF = 1_750_000_000;
+const PARAMS = getScoringVersion("1.3.0").params.recency as RecencyParams;
+
+function daysAgo(days: number): number {
+  return AS_OF - days * DAY;
+}
+
+function input(recency: RecencyInput): ScoreInput {
+  return {
+    agentId: 5,
+    feedbackCount: 2,
+    feedbackValue: 180,
+    completedMandates: 4,
+    totalMandates: 4,
+    totalEscrowWei: BigInt("100000000000000000"),
+    hasMetadata: true,
+    hasSkills: true,
+    ownerVerified: true,
+    recency,
+  };
+}
+
+describe("decay", () => {
+  it("halves once per half-life and never exceeds 1", () => {
+    assert.equal(decayFactor(daysAgo(180), AS_OF, 180), 0.5);
+    assert.equal(decayFactor(daysAgo(360), AS_OF, 180), 0.25);
+    assert.equal(decayFactor(AS_OF, AS_OF, 180), 1);
+    assert.equal(decayFactor(AS_OF + DAY, AS_OF, 180), 1);
+  });
+
+  it("weighs undated reviews with the fixed factor", () => {
+    assert.equal(reviewDecay({ reviewer: "0xa", value: 90, at: null }, AS_OF, PARAMS), PARAMS.undatedReviewFactor);
+    assert.equal(reviewDecay({ reviewer: "0xa", value: 90, at: daysAgo(180) }, AS_OF, PARAMS), 0.5);
+  });
+
+  it("sums decayed completions over the completion half-life", () => {
+    assert.equal(decayedCompletions([AS_OF, daysAgo(365), daysAgo(730)], AS_OF, PARAMS), 1.75);
+    assert.equal(decayedCompletions([], AS_OF, PARAMS), 0);
+  });
+});
+
+describe("inactivity", () => {
+  it("measures idle days from the latest activity or completion", () => {
+    assert.equal(idleDays({ asOf: AS_OF, lastActiveAt: daysAgo(40), reviews: [], completions: [daysAgo(10)] }), 10);
+    assert.equal(idleDays({ asOf: AS_OF, lastActiveAt: daysAgo(40), reviews: [], completions: [] }), 40);
+    assert.equal(idleDays({ asOf: AS_OF, lastActiveAt: null, reviews: [], completions: [] }), null);
+  });
+
+  it("penalizes past the grace period up to the maximum", () => {
+    assert.equal(inactivityPenalty(null, PARAMS), 0);
+    assert.equal(inactivityPenalty(30, PARAMS), 0);
+    assert.equal(inactivityPenalty(60, PARAMS), 2);
+    assert.equal(inactivityPenalty(120, PARAMS), 6);
+    assert.equal(inactivityPenalty(1_000, PARAMS), PARAMS.inactivityPenaltyMax);
+  });
+});
+
+describe("recency-aware score", () => {
+  const fresh: RecencyInput = {
+    asOf: AS_OF,
+    lastActiveAt: daysAgo(1),
+    reviews: [
+      { reviewer: "0xa", value: 90, at: daysAgo(1) },
+      { reviewer: "0xb", value: 90, at: daysAgo(2) },
+    ],
+    completions: [daysAgo(1), daysAgo(2), daysAgo(3), daysAgo(4)],
+  };
+  const stale: RecencyInput = {
+    asOf: AS_OF,
+    lastActiveAt: daysAgo(400),
+    reviews: fresh.reviews.map((r) => ({ ...r, at: daysAgo(500) })),
+    completions: fresh.completions.map(() => daysAgo(400)),
+  };
+
+  it("scores stale activity lower and explains the penalty", () => {
+    const a = computeScore(input(fresh), "1.3.0");
+    const b = computeScore(input(stale), "1.3.0");
+    assert.ok(b.score < a.score);
+    assert.equal(a.recency?.inactivityPenalty, 0);
+    assert.equal(b.recency?.idleDays, 400);
+    assert.equal(b.recency?.inactivityPenalty, PARAMS.inactivityPenaltyMax);
+    assert.ok((b.recency?.decayedReviewCount ?? 2) < 1);
+  });
+
+  it("does not depend on the clock", () => {
+    const a = computeScore(input(stale), "1.3.0");
+    const b = computeScore(input(stale), "1.3.0");
+    assert.deepEqual(a.components, b.components);
+    assert.deepEqual(a.recency, b.recency);
+  });
+
+  it("ignores recency input before v1.3.0", () => {
+    const out = computeScore(input(stale), "1.2.0");
+    assert.equal(out.recency, undefined);
+    assert.equal(encodeDecay(out.recency), "");
+  });
+
+  it("signs asOf and the parameters in a fixed order", () => {
+    const decay = encodeDecay(computeScore(input(fresh), "1.3.0").recency);
+    assert.equal(
+      decay,
+      `{"asOf":${AS_OF},"reviewHalfLifeDays":180,"completionHalfLifeDays":365,"undatedReviewFactor":0.5,` +
+        `"inactivityGraceDays":30,"inactivityPenaltyPer30Days":2,"inactivityPenaltyMax":10}`
+    );
+  });
+});
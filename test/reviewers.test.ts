@@ -0,0 +1,126 @@
+/**
+ * Reviewer weighting (@moltscore/scoring reviewers.ts): each discount on its own, how they
+ * combine, and the weighted totals peer reputation scores from v1.2.0 on.
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  computeScore,
+  getScoringVersion,
+  scorePeerReputation,
+  weighReviewers,
+  type ReviewerSignal,
+  type ReviewerWeightingParams,
+} from "@moltscore/scoring";
+
+const PARAMS = getScoringVersion("1.2.0").params.peerReputation.reviewerWeighting as ReviewerWeightingParams;
+
+function reviewer(address: string, overrides: Partial<ReviewerSignal> = {}): ReviewerSignal {
+  return { address, reviews: 1, valueSum: 90, sharesOwner: false, txCount: 50, fundedBy: null, ...overrides };
+}
+
+describe("weighReviewers", () => {
+  it("keeps independent reviewers at full weight", () => {
+    const w = weighReviewers([reviewer("0xb", { reviews: 2, valueSum: 170 }), reviewer("0xa")], PARAMS);
+    assert.deepEqual(
+      w.weights.map((r) => [r.address, r.weight, r.discounts]),
+      [
+        ["0xa", 1, []],
+        ["0xb", 1, []],
+      ]
+    );
+    assert.equal(w.reviewers, 2);
+    assert.equal(w.effectiveReviewers, 2);
+    assert.equal(w.weightedCount, 3);
+    assert.equal(w.weightedValue, 260);
+  });
+
+  it("zeroes reviewers that share the agent's owner", () => {
+    const w = weighReviewers([reviewer("0xa", { sharesOwner: true })], PARAMS);
+    assert.equal(w.weights[0].weight, 0);
+    assert.deepEqual(w.weights[0].discounts, [{ reason: "shared_owner", factor: 0 }]);
+    assert.equal(w.weightedCount, 0);
+  });
+
+  it("discounts reviewers without transaction history, but not unknown ones", () => {
+    const w = weighReviewers(
+      [reviewer("0xa", { txCount: 2 }), reviewer("0xb", { txCount: 3 }), reviewer("0xc", { txCount: null })],
+      PARAMS
+    );
+    assert.deepEqual(
+      w.weights.map((r) => r.weight),
+      [0.25, 1, 1]
+    );
+    assert.deepEqual(w.weights[0].discounts, [{ reason: "no_history", factor: 0.25 }]);
+  });
+
+  it("makes a funding cluster share one reviewer's weight from its minimum size on", () => {
+    const pair = weighReviewers([reviewer("0xa", { fundedBy: "0xf" }), reviewer("0xb", { fundedBy: "0xf" })], PARAMS);
+    assert.equal(pair.effectiveReviewers, 2);
+
+    const cluster = weighReviewers(
+      [...["0xa", "0xb", "0xc", "0xd"].map((a) => reviewer(a, { fundedBy: "0xf" })), reviewer("0xe", { fundedBy: "0x1" })],
+      PARAMS
+    );
+    assert.deepEqual(cluster.weights[0].discounts, [
+      { reason: "funding_cluster", factor: 0.25, fundedBy: "0xf", clusterSize: 4 },
+    ]);
+    assert.equal(cluster.effectiveReviewers, 2);
+    assert.equal(cluster.weightedValue, 180);
+  });
+
+  it("multiplies discounts that apply together", () => {
+    const w = weighReviewers(
+      ["0xa", "0xb", "0xc"].map((a) => reviewer(a, { fundedBy: "0xf", txCount: a === "0xa" ? 0 : 10 })),
+      PARAMS
+    );
+    assert.equal(w.weights[0].weight, Math.round((0.25 / 3) * 1e6) / 1e6);
+    assert.deepEqual(
+      w.weights[0].discounts.map((d) => d.reason),
+      ["no_history", "funding_cluster"]
+    );
+  });
+});
+
+describe("weighted peer reputation", () => {
+  const base = { feedbackCount: 4, feedbackValue: 360 };
+  const reviewers = [
+    reviewer("0xa", { reviews: 3, valueSum: 270, sharesOwner: true }),
+    reviewer("0xb", { reviews: 1, valueSum: 90 }),
+  ];
+
+  it("scores the weighted totals from v1.2.0 on", () => {
+    const weighted = scorePeerReputation({ ...base, reviewers }, "1.2.0");
+    assert.equal(weighted.effectiveCount, 1);
+    assert.equal(weighted.reviewerWeighting?.effectiveReviewers, 1);
+    assert.ok(weighted.points < scorePeerReputation(base, "1.2.0").points);
+  });
+
+  it("ignores reviewer signals in versions without weighting", () => {
+    const v1 = scorePeerReputation({ ...base, reviewers }, "1.0.0");
+    assert.equal(v1.effectiveCount, 4);
+    assert.equal(v1.reviewerWeighting, undefined);
+  });
+
+  it("explains the weights in the score output", () => {
+    const out = computeScore(
+      {
+        agentId: 1,
+        ...base,
+        completedMandates: 0,
+        totalMandates: 0,
+        totalEscrowWei: BigInt(0),
+        hasMetadata: false,
+        hasSkills: false,
+        ownerVerified: false,
+        reviewers,
+      },
+      "1.2.0"
+    );
+    assert.equal(out.reviewerWeighting?.weights.length, 2);
+    assert.equal(out.components.peerReputation, scorePeerReputation({ ...base, reviewers }, "1.2.0").points);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Replays fixtures/rpc/sample.json through the same on-chain reads the scoring path uses
+ * (resolveSourceBlock + fetchOnchainSources, as in buildScoreInputForTee and the TEE's
+ * GET /score). The sample was recorded with scripts/recordRpcFixture.ts (agents 1 and 2,
+ * pinned to latest) from a local JSON-RPC stub serving synthetic Base data: agent 1 is
+ * registered with two reviews, agent 2 does not exist (ownerOf reverts).
+ *
+ * Run: npm test
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolve } from "path";
+import { computeScore, fetchOnchainSources, fetchScoreInput, resolveSourceBlock } from "@moltscore/scoring";
+import { FixtureJsonRpcProvider, RpcFixtureMissError } from "@/services/rpcFixtures";
+
+const SAMPLE = resolve(__dirname, "../fixtures/rpc/sample.json");
+const BLOCK = {
+  number: 30_000_000,
+  hash: "0x97a9ad64b371cb7a709cb31b8baa5159bc4d7556349703c6464e800f815a1ea5",
+};
+
+describe("RPC fixture replay", () => {
+  const provider = new FixtureJsonRpcProvider("replay", SAMPLE);
+  after(() => provider.destroy());
+
+  it("resolves the recorded block by tag and by number", async () => {
+    assert.deepEqual(await resolveSourceBlock(provider, "latest"), BLOCK);
+    assert.deepEqual(await resolveSourceBlock(provider, BLOCK.number), BLOCK);
+  });
+
+  it("reads a registered agent at the pinned block", async () => {
+    const sources = await fetchOnchainSources(provider, 1, BLOCK.number);
+    assert.deepEqual(sources, {
+      agentId: 1,
+      identity: { agentURI: "ipfs://sample-agent-1", owner: "0x1111111111111111111111111111111111111111" },
+      // getSummary returned 1700 with 1 decimal
+      onchainReputation: { count: 2, summaryValue: 170 },
+    });
+  });
+
+  it("treats reverts as missing data", async () => {
+    const sources = await fetchOnchainSources(provider, 2, BLOCK.number);
+    assert.deepEqual(sources.identity, { agentURI: null, owner: null });
+    assert.deepEqual(sources.onchainReputation, { count: 0, summaryValue: 0 });
+  });
+
+  it("scores the replayed input deterministically", async () => {
+    const a = computeScore(await fetchScoreInput(provider, 1, BLOCK.number), "1.4.0");
+    const b = computeScore(await fetchScoreInput(provider, 1, BLOCK.number), "1.4.0");
+    assert.deepEqual(a.components, b.components);
+    assert.equal(a.score, b.score);
+  });
+
+  it("fails on requests that were not recorded", async () => {
+    await assert.rejects(fetchOnchainSources(provider, 3, BLOCK.number), RpcFixtureMissError);
+    await assert.rejects(fetchOnchainSources(provider, 1, BLOCK.number - 1), RpcFixtureMissError);
+  });
+});
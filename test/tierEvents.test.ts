@@ -0,0 +1,83 @@
+/**
+ * detectTierChange (services/tierEvents.ts): when a new score is a tier event, its
+ * direction, and the cause and per-component deltas recorded with it.
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectTierChange } from "@/services/tierEvents";
+import type { SnapshotWrite } from "@/services/scoreHistory";
+
+function snapshot(
+  score: number,
+  tier: string,
+  components: Record<string, number>,
+  scoringVersion = "1.4.0"
+): SnapshotWrite {
+  return { agentId: 9, score, tier, components, reputationSource: "onchain", scoringVersion };
+}
+
+const BEFORE = snapshot(62, "A", {
+  peerReputation: 30,
+  taskCompletion: 20,
+  economicActivity: 5,
+  identityCompleteness: 7,
+});
+
+describe("detectTierChange", () => {
+  it("is null for a first score or an unchanged tier", () => {
+    assert.equal(detectTierChange(undefined, BEFORE), null);
+    const same = snapshot(55, "A", { ...BEFORE.components, peerReputation: 23 });
+    assert.equal(detectTierChange(BEFORE, same), null);
+  });
+
+  it("records a promotion with the component that moved the score up most", () => {
+    const after = snapshot(67, "AA", { ...BEFORE.components, taskCompletion: 24, economicActivity: 6 });
+    const event = detectTierChange(BEFORE, after);
+    assert.deepEqual(event, {
+      agentId: 9,
+      fromTier: "A",
+      toTier: "AA",
+      direction: "promotion",
+      scoreBefore: 62,
+      scoreAfter: 67,
+      cause: "taskCompletion",
+      componentDeltas: { peerReputation: 0, taskCompletion: 4, economicActivity: 1, identityCompleteness: 0 },
+      previousVersion: "1.4.0",
+      scoringVersion: "1.4.0",
+    });
+  });
+
+  it("blames the inactivity penalty when it drove a demotion", () => {
+    // Components unchanged (sum 62); 14 points taken off the total for inactivity
+    const after = snapshot(48, "BB", BEFORE.components);
+    const event = detectTierChange(BEFORE, after);
+    assert.equal(event?.direction, "demotion");
+    assert.equal(event?.cause, "inactivityPenalty");
+    assert.equal(event?.componentDeltas.inactivityPenalty, -14);
+  });
+
+  it("attributes changes across scoring versions to the version", () => {
+    const from = { ...BEFORE, scoringVersion: "1.3.0" };
+    const after = snapshot(66, "AA", { ...BEFORE.components, peerReputation: 34 });
+    const event = detectTierChange(from, after);
+    assert.equal(event?.cause, "scoringVersion");
+    assert.equal(event?.previousVersion, "1.3.0");
+    assert.equal(event?.scoringVersion, "1.4.0");
+  });
+
+  it("falls back to the score delta for tiers the ladder does not define", () => {
+    const from = snapshot(40, "Legacy", BEFORE.components);
+    assert.equal(detectTierChange(from, snapshot(52, "A", BEFORE.components))?.direction, "promotion");
+    assert.equal(detectTierChange(from, snapshot(30, "B", BEFORE.components))?.direction, "demotion");
+  });
+
+  it("uses \"score\" when no single term moved in the direction of the change", () => {
+    const from = { ...BEFORE, tier: "Legacy" };
+    const event = detectTierChange(from, BEFORE);
+    assert.equal(event?.direction, "promotion");
+    assert.equal(event?.cause, "score");
+  });
+});